@@ -0,0 +1,71 @@
+-- Copyright (c) 2024, Geoffrey M. Poore
+-- All rights reserved.
+--
+-- Licensed under the BSD 3-Clause License:
+-- http://opensource.org/licenses/BSD-3-Clause
+--
+
+-- Pandoc Lua filter that converts a document into an outline of the slides
+-- created by slide show writers such as PowerPoint (pptx), for display in an
+-- HTML preview.  Slides follow Pandoc's slide show structure:  headings at
+-- the slide level start slides, headings above the slide level create
+-- section title slides, and horizontal rules start untitled slides.
+--
+-- Requires Pandoc 3.0+ for `pandoc.structure`.
+--
+
+
+local function newSlide(slides, kind, title)
+    local slide = {kind = kind, title = title, blocks = pandoc.Blocks{}}
+    table.insert(slides, slide)
+    return slide
+end
+
+
+function Pandoc(doc)
+    local slideLevel = PANDOC_WRITER_OPTIONS.slide_level
+    if slideLevel == nil then
+        slideLevel = pandoc.structure.slide_level(doc.blocks)
+    end
+
+    local slides = {}
+    if doc.meta.title ~= nil then
+        newSlide(slides, 'Title slide', pandoc.utils.stringify(doc.meta.title))
+    end
+    local currentSlide = nil
+    for _, block in ipairs(doc.blocks) do
+        if block.t == 'Header' and block.level <= slideLevel then
+            if block.level < slideLevel then
+                currentSlide = newSlide(slides, 'Section title slide', pandoc.utils.stringify(block.content))
+            else
+                currentSlide = newSlide(slides, 'Slide', pandoc.utils.stringify(block.content))
+            end
+        elseif block.t == 'HorizontalRule' then
+            currentSlide = newSlide(slides, 'Slide', '')
+        else
+            -- Content following a section title is placed on a new slide
+            if currentSlide == nil or currentSlide.kind ~= 'Slide' then
+                currentSlide = newSlide(slides, 'Slide', '')
+            end
+            currentSlide.blocks:insert(block)
+        end
+    end
+
+    local outlineBlocks = pandoc.Blocks{}
+    for index, slide in ipairs(slides) do
+        local heading = pandoc.Header(
+            2,
+            pandoc.Inlines(string.format('%d. %s', index, slide.kind)),
+            pandoc.Attr('', {'unnumbered', 'unlisted'})
+        )
+        if slide.title ~= '' then
+            heading.content:insert(pandoc.Str(':'))
+            heading.content:insert(pandoc.Space())
+            heading.content:insert(pandoc.Strong(pandoc.Inlines(slide.title)))
+        end
+        local slideBlocks = pandoc.Blocks{heading}
+        slideBlocks:extend(slide.blocks)
+        outlineBlocks:insert(pandoc.Div(slideBlocks, pandoc.Attr('', {'codebraid-slide-outline'})))
+    end
+    return pandoc.Pandoc(outlineBlocks, doc.meta)
+end
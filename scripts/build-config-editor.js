@@ -0,0 +1,560 @@
+// Copyright (c) 2024, Geoffrey M. Poore
+// All rights reserved.
+//
+// Licensed under the BSD 3-Clause License:
+// http://opensource.org/licenses/BSD-3-Clause
+//
+
+
+// Build configuration editor.  The form is the source of truth while
+// editing:  settings are collected from the form after each change, then
+// validated here (options, file extensions, defaults) and by the extension
+// (everything else).  Settings that the form doesn't edit, such as
+// `exportProfiles`, are preserved from the loaded settings.  Inherited file
+// extensions are read-only and are never collected; overriding one replaces
+// it with an editable copy.
+
+
+const vscode = acquireVsCodeApi();
+
+const toolbarElement = document.getElementById('toolbar');
+const buildConfigElement = document.getElementById('build-config');
+
+let optionRegex = undefined;
+let fileExtensionRegex = undefined;
+let currentTarget = undefined;
+let isDirty = false;
+let localErrors = [];
+// Whether any values can't be collected from the form, such as defaults that
+// aren't valid JSON
+let hasUncollectedValues = false;
+let validationId = 0;
+let validationTimer = undefined;
+
+const targetSelect = document.createElement('select');
+targetSelect.title = 'Where build configurations are loaded from and saved to';
+const saveButton = createButton('save', 'Save', 'Save build configurations');
+const statusElement = document.createElement('span');
+statusElement.className = 'status';
+toolbarElement.append(targetSelect, saveButton, statusElement);
+
+
+window.addEventListener('message', (event) => {
+    const message = event.data;
+    switch (message.command) {
+        case 'codebraidPreview.loadBuildConfig': {
+            optionRegex = new RegExp(message.optionPattern);
+            fileExtensionRegex = new RegExp(message.fileExtensionPattern);
+            currentTarget = message.target;
+            targetSelect.replaceChildren();
+            for (const target of message.targets) {
+                const option = document.createElement('option');
+                option.value = target.id;
+                option.textContent = target.label;
+                targetSelect.append(option);
+            }
+            targetSelect.value = currentTarget;
+            renderBuildConfig(message.build, message.inheritedBuild);
+            setDirty(false);
+            onDidChangeBuildConfig();
+            return;
+        }
+        case 'codebraidPreview.selectedBuildConfigTarget': {
+            targetSelect.value = message.target;
+            return;
+        }
+        case 'codebraidPreview.buildConfigErrors': {
+            if (message.validationId !== validationId) {
+                return;
+            }
+            showErrors([...localErrors, ...message.errors]);
+            return;
+        }
+        case 'codebraidPreview.savedBuildConfig': {
+            currentTarget = targetSelect.value;
+            setDirty(false);
+            statusElement.textContent = 'Saved';
+            return;
+        }
+    }
+});
+
+targetSelect.addEventListener('change', () => {
+    vscode.postMessage({
+        command: 'codebraidPreview.selectBuildConfigTarget',
+        target: targetSelect.value,
+        isDirty: isDirty,
+    });
+});
+
+saveButton.addEventListener('click', () => {
+    const build = collectBuildConfig();
+    if (hasUncollectedValues) {
+        // Settings would contain the previous values rather than what the
+        // form shows, so these errors must be fixed before saving
+        showErrors(localErrors);
+        statusElement.textContent = 'Cannot save until invalid defaults are fixed';
+        statusElement.classList.add('has-errors');
+        return;
+    }
+    vscode.postMessage({
+        command: 'codebraidPreview.saveBuildConfig',
+        target: targetSelect.value,
+        build: build,
+        hasErrors: localErrors.length > 0,
+    });
+});
+
+buildConfigElement.addEventListener('input', () => {
+    setDirty(true);
+    onDidChangeBuildConfig();
+});
+
+
+function setDirty(value) {
+    isDirty = value;
+    saveButton.disabled = !isDirty && targetSelect.value === currentTarget;
+    if (isDirty) {
+        statusElement.textContent = 'Unsaved changes';
+    }
+}
+
+function onDidChangeBuildConfig() {
+    // Local validation is immediate, and the extension's validation follows
+    // once typing pauses
+    const build = collectBuildConfig();
+    showErrors(localErrors);
+    validationId += 1;
+    if (validationTimer !== undefined) {
+        clearTimeout(validationTimer);
+    }
+    const currentValidationId = validationId;
+    validationTimer = setTimeout(
+        () => {
+            validationTimer = undefined;
+            vscode.postMessage({
+                command: 'codebraidPreview.validateBuildConfig',
+                validationId: currentValidationId,
+                build: build,
+            });
+        },
+        300
+    );
+}
+
+
+function createButton(icon, text, title) {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.title = title;
+    const iconElement = document.createElement('span');
+    iconElement.className = `codicon codicon-${icon}`;
+    button.append(iconElement);
+    if (text) {
+        button.append(` ${text}`);
+    } else {
+        button.classList.add('icon-button');
+    }
+    return button;
+}
+
+function createField(labelText, input) {
+    const field = document.createElement('label');
+    field.className = 'field';
+    const labelElement = document.createElement('span');
+    labelElement.className = 'field-label';
+    labelElement.textContent = labelText;
+    field.append(labelElement, input);
+    return field;
+}
+
+function createTextInput(className, value, placeholder) {
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.className = className;
+    input.value = value === undefined ? '' : value;
+    input.spellcheck = false;
+    if (placeholder) {
+        input.placeholder = placeholder;
+    }
+    return input;
+}
+
+function createListField(labelText, className, values, placeholder) {
+    // A list of text inputs, with buttons for adding and removing items
+    const list = document.createElement('div');
+    list.className = `list ${className}`;
+    const addListItem = (value) => {
+        const item = document.createElement('div');
+        item.className = 'list-item';
+        const removeButton = createButton('close', '', 'Remove');
+        removeButton.addEventListener('click', () => {
+            item.remove();
+            setDirty(true);
+            onDidChangeBuildConfig();
+        });
+        item.append(createTextInput('list-input', value, placeholder), removeButton);
+        list.insertBefore(item, addButton);
+        return item;
+    };
+    const addButton = createButton('add', 'Add', `Add to ${labelText.toLowerCase()}`);
+    addButton.addEventListener('click', () => {
+        addListItem('').querySelector('input').focus();
+        setDirty(true);
+        onDidChangeBuildConfig();
+    });
+    list.append(addButton);
+    for (const value of values) {
+        addListItem(value);
+    }
+    const field = document.createElement('div');
+    field.className = 'field';
+    const labelElement = document.createElement('span');
+    labelElement.className = 'field-label';
+    labelElement.textContent = labelText;
+    field.append(labelElement, list);
+    return field;
+}
+
+
+function renderBuildConfig(build, inheritedBuild) {
+    buildConfigElement.replaceChildren();
+    if (typeof(build) !== 'object' || build === null || Array.isArray(build)) {
+        build = {};
+    }
+    if (typeof(inheritedBuild) !== 'object' || inheritedBuild === null || Array.isArray(inheritedBuild)) {
+        inheritedBuild = {};
+    }
+    for (const [key, settings] of Object.entries(build)) {
+        buildConfigElement.append(createFileExtensionElement(key, settings));
+    }
+    for (const [key, settings] of Object.entries(inheritedBuild)) {
+        if (!Object.hasOwn(build, key)) {
+            buildConfigElement.append(createInheritedFileExtensionElement(key, settings));
+        }
+    }
+    const addButton = createButton('add', 'Add file extension', 'Add build settings for a file extension');
+    addButton.classList.add('add-file-extension');
+    addButton.addEventListener('click', () => {
+        const element = createFileExtensionElement('', {reader: 'commonmark_x', preview: {html: {defaults: {}, options: []}}, export: {}});
+        buildConfigElement.insertBefore(element, addButton);
+        element.querySelector('.file-extension-input').focus();
+        setDirty(true);
+        onDidChangeBuildConfig();
+    });
+    buildConfigElement.append(addButton);
+}
+
+function createFileExtensionElement(key, settings) {
+    if (typeof(settings) !== 'object' || settings === null || Array.isArray(settings)) {
+        settings = {};
+    }
+    const element = document.createElement('section');
+    element.className = 'file-extension';
+    element.codebraidSettings = settings;
+
+    const header = document.createElement('div');
+    header.className = 'header';
+    const removeButton = createButton('trash', '', 'Remove file extension');
+    removeButton.addEventListener('click', () => {
+        element.remove();
+        setDirty(true);
+        onDidChangeBuildConfig();
+    });
+    header.append(
+        createField('File extension', createTextInput('file-extension-input', key, '*.md')),
+        createField('Reader', createTextInput('reader-input', settings.reader, 'commonmark_x')),
+        removeButton
+    );
+    element.append(header);
+
+    for (const section of ['preview', 'export']) {
+        const sectionElement = document.createElement('div');
+        sectionElement.className = 'build-section';
+        sectionElement.dataset.section = section;
+        const heading = document.createElement('h3');
+        heading.textContent = section === 'preview' ? 'Preview' : 'Export';
+        sectionElement.append(heading);
+        let sectionSettings = settings[section];
+        if (typeof(sectionSettings) !== 'object' || sectionSettings === null || Array.isArray(sectionSettings)) {
+            sectionSettings = {};
+        }
+        const addButton = createButton('add', `Add ${section}`, `Add ${section} build configuration`);
+        addButton.addEventListener('click', () => {
+            const entry = createBuildEntryElement('', {defaults: {}, options: []});
+            sectionElement.insertBefore(entry, addButton);
+            entry.querySelector('.name-input').focus();
+            setDirty(true);
+            onDidChangeBuildConfig();
+        });
+        for (const [name, value] of Object.entries(sectionSettings)) {
+            sectionElement.append(createBuildEntryElement(name, value));
+        }
+        sectionElement.append(addButton);
+        element.append(sectionElement);
+    }
+
+    const otherKeys = Object.keys(settings).filter((key) => !['reader', 'preview', 'export'].includes(key));
+    if (otherKeys.length > 0) {
+        const note = document.createElement('p');
+        note.className = 'note';
+        note.textContent = `Also defined and kept unchanged: ${otherKeys.join(', ')}`;
+        element.append(note);
+    }
+    return element;
+}
+
+function createInheritedFileExtensionElement(key, settings) {
+    // Read-only view of settings from lower settings layers
+    const element = createFileExtensionElement(key, settings);
+    element.classList.add('inherited');
+    for (const input of element.querySelectorAll('input, textarea')) {
+        input.readOnly = true;
+    }
+    for (const button of element.querySelectorAll('button')) {
+        button.remove();
+    }
+    const overrideButton = createButton('edit', 'Override', 'Copy these settings into this target so that they can be edited');
+    overrideButton.addEventListener('click', () => {
+        const copy = createFileExtensionElement(key, JSON.parse(JSON.stringify(settings)));
+        element.replaceWith(copy);
+        copy.querySelector('.reader-input').focus();
+        setDirty(true);
+        onDidChangeBuildConfig();
+    });
+    element.querySelector('.header').append(overrideButton);
+    const note = document.createElement('p');
+    note.className = 'note';
+    note.textContent = 'Inherited from default or other settings; not saved to this target unless overridden';
+    element.append(note);
+    return element;
+}
+
+function createBuildEntryElement(name, settings) {
+    if (typeof(settings) !== 'object' || settings === null || Array.isArray(settings)) {
+        settings = {};
+    }
+    const element = document.createElement('div');
+    element.className = 'build-entry';
+    element.codebraidSettings = settings;
+
+    const header = document.createElement('div');
+    header.className = 'header';
+    const removeButton = createButton('trash', '', 'Remove build configuration');
+    removeButton.addEventListener('click', () => {
+        element.remove();
+        setDirty(true);
+        onDidChangeBuildConfig();
+    });
+    header.append(
+        createField('Name', createTextInput('name-input', name, 'html')),
+        createField('Writer', createTextInput('writer-input', settings.writer, 'same as name')),
+        removeButton
+    );
+
+    let extendsValues = [];
+    if (typeof(settings.extends) === 'string') {
+        extendsValues = [settings.extends];
+    } else if (Array.isArray(settings.extends)) {
+        extendsValues = settings.extends;
+    }
+    const defaultsInput = document.createElement('textarea');
+    defaultsInput.className = 'defaults-input';
+    defaultsInput.spellcheck = false;
+    defaultsInput.rows = 3;
+    defaultsInput.placeholder = '{}';
+    const defaults = settings.defaults;
+    if (typeof(defaults) === 'object' && defaults !== null && Object.keys(defaults).length > 0) {
+        defaultsInput.value = JSON.stringify(defaults, null, 2);
+        defaultsInput.rows = Math.min(12, defaultsInput.value.split('\n').length);
+    }
+    element.append(
+        header,
+        createListField('Extends', 'extends-list', extendsValues, 'PDF, export/<name>, or *.<ext>/preview/<name>'),
+        createField('Defaults (JSON)', defaultsInput),
+        createListField('Options', 'options-list', Array.isArray(settings.options) ? settings.options : [], '--option=value')
+    );
+    return element;
+}
+
+
+function getListValues(element, listClassName) {
+    // Empty items are ignored
+    const values = [];
+    for (const input of element.querySelectorAll(`.${listClassName} .list-input`)) {
+        if (input.value.trim() !== '') {
+            values.push(input.value.trim());
+        }
+    }
+    return values;
+}
+
+function collectBuildConfig() {
+    // Create build settings from the form, and update `localErrors` for any
+    // problems that prevent values from being collected or that can be
+    // checked locally
+    const build = {};
+    localErrors = [];
+    hasUncollectedValues = false;
+    for (const element of buildConfigElement.querySelectorAll('.file-extension:not(.inherited)')) {
+        const key = element.querySelector('.file-extension-input').value.trim();
+        if (!fileExtensionRegex.test(key)) {
+            localErrors.push({keyPath: [key], message: `Invalid file extension "${key}"; this must have a form like "*.md"`});
+        } else if (Object.hasOwn(build, key)) {
+            localErrors.push({keyPath: [key], message: `Duplicate file extension "${key}"`});
+        }
+        const settings = {...element.codebraidSettings};
+        settings.reader = element.querySelector('.reader-input').value.trim();
+        for (const sectionElement of element.querySelectorAll('.build-section')) {
+            const section = sectionElement.dataset.section;
+            const sectionSettings = {};
+            for (const entryElement of sectionElement.querySelectorAll('.build-entry')) {
+                const name = entryElement.querySelector('.name-input').value.trim();
+                if (name === '') {
+                    localErrors.push({keyPath: [key, section, name], message: 'Missing name'});
+                } else if (Object.hasOwn(sectionSettings, name)) {
+                    localErrors.push({keyPath: [key, section, name], message: `Duplicate name "${name}"`});
+                }
+                const entrySettings = {...entryElement.codebraidSettings};
+                const writer = entryElement.querySelector('.writer-input').value.trim();
+                if (writer === '') {
+                    delete entrySettings.writer;
+                } else {
+                    entrySettings.writer = writer;
+                }
+                const extendsValues = getListValues(entryElement, 'extends-list');
+                if (extendsValues.length === 0) {
+                    delete entrySettings.extends;
+                } else {
+                    entrySettings.extends = extendsValues.length === 1 ? extendsValues[0] : extendsValues;
+                }
+                const defaultsText = entryElement.querySelector('.defaults-input').value.trim();
+                if (defaultsText === '') {
+                    entrySettings.defaults = {};
+                } else {
+                    let defaults;
+                    try {
+                        defaults = JSON.parse(defaultsText);
+                    } catch (error) {
+                        localErrors.push({keyPath: [key, section, name, 'defaults'], message: `Invalid JSON:  ${error.message}`});
+                        hasUncollectedValues = true;
+                    }
+                    if (defaults !== undefined) {
+                        if (typeof(defaults) !== 'object' || defaults === null || Array.isArray(defaults)) {
+                            localErrors.push({keyPath: [key, section, name, 'defaults'], message: 'Defaults must be a JSON object'});
+                            hasUncollectedValues = true;
+                        } else {
+                            entrySettings.defaults = defaults;
+                        }
+                    }
+                }
+                entrySettings.options = getListValues(entryElement, 'options-list');
+                for (const [index, option] of entrySettings.options.entries()) {
+                    if (!optionRegex.test(option)) {
+                        localErrors.push({
+                            keyPath: [key, section, name, 'options', index],
+                            message: `Invalid option "${option}"; check for unsupported reader/writer/output settings, and check quoting/escaping for shell`,
+                        });
+                    }
+                }
+                sectionSettings[name] = entrySettings;
+            }
+            settings[section] = sectionSettings;
+        }
+        build[key] = settings;
+    }
+    return build;
+}
+
+
+function findElementForKeyPath(keyPath) {
+    // Find the form element for a key path, or the closest element for a
+    // parent key path
+    const [key, field, name, subfield, index] = keyPath;
+    const fileExtensionElement = Array.from(buildConfigElement.querySelectorAll('.file-extension:not(.inherited)')).find(
+        (element) => element.querySelector('.file-extension-input').value.trim() === key
+    );
+    if (!fileExtensionElement) {
+        return undefined;
+    }
+    if (field === 'reader') {
+        return fileExtensionElement.querySelector('.reader-input');
+    }
+    if (field !== 'preview' && field !== 'export') {
+        return fileExtensionElement.querySelector('.file-extension-input');
+    }
+    const sectionElement = fileExtensionElement.querySelector(`.build-section[data-section="${field}"]`);
+    const entryElement = Array.from(sectionElement.querySelectorAll('.build-entry')).find(
+        (element) => element.querySelector('.name-input').value.trim() === name
+    );
+    if (!entryElement) {
+        return sectionElement.querySelector('h3');
+    }
+    switch (subfield) {
+        case 'writer': {
+            return entryElement.querySelector('.writer-input');
+        }
+        case 'defaults': {
+            return entryElement.querySelector('.defaults-input');
+        }
+        case 'options':
+        case 'extends': {
+            const inputs = Array.from(entryElement.querySelectorAll(`.${subfield}-list .list-input`)).filter(
+                (input) => input.value.trim() !== ''
+            );
+            if (typeof(index) === 'number' && index < inputs.length) {
+                return inputs[index];
+            }
+            if (inputs.length > 0 && typeof(index) !== 'number') {
+                return inputs[0];
+            }
+            return entryElement.querySelector(`.${subfield}-list`);
+        }
+        default: {
+            return entryElement.querySelector('.name-input');
+        }
+    }
+}
+
+function showErrors(errors) {
+    for (const element of buildConfigElement.querySelectorAll('.error-message')) {
+        element.remove();
+    }
+    for (const element of buildConfigElement.querySelectorAll('.invalid')) {
+        element.classList.remove('invalid');
+    }
+    const shownMessages = new Map();
+    let unlocatedCount = 0;
+    for (const error of errors) {
+        const element = findElementForKeyPath(error.keyPath);
+        if (!element) {
+            unlocatedCount += 1;
+            continue;
+        }
+        // The extension repeats some local errors
+        if (!shownMessages.has(element)) {
+            shownMessages.set(element, new Set());
+        }
+        if (shownMessages.get(element).has(error.message)) {
+            continue;
+        }
+        shownMessages.get(element).add(error.message);
+        element.classList.add('invalid');
+        const messageElement = document.createElement('div');
+        messageElement.className = 'error-message';
+        messageElement.textContent = error.message;
+        const container = element.closest('.list-item, .field') || element;
+        container.insertAdjacentElement('afterend', messageElement);
+    }
+    const errorCount = Array.from(shownMessages.values()).reduce((count, messages) => count + messages.size, 0) + unlocatedCount;
+    if (errorCount > 0) {
+        statusElement.textContent = `${errorCount} problem${errorCount === 1 ? '' : 's'}${isDirty ? ', unsaved changes' : ''}`;
+        statusElement.classList.add('has-errors');
+    } else {
+        statusElement.textContent = isDirty ? 'Unsaved changes' : '';
+        statusElement.classList.remove('has-errors');
+    }
+}
+
+
+vscode.postMessage({command: 'codebraidPreview.ready'});
@@ -1,4 +1,4 @@
-// Copyright (c) 2022-2023, Geoffrey M. Poore
+// Copyright (c) 2022-2024, Geoffrey M. Poore
 // All rights reserved.
 //
 // Licensed under the BSD 3-Clause License:
@@ -17,6 +17,9 @@ if (codebraidSourceposMetaElement) {
 }
 let codebraidSourceposMaxElement = codebraidSourceposMetaElement;
 
+// Slide shows from the reveal.js writer (presentation mode)
+const isPresentation = document.querySelector('div.reveal > div.slides') !== null && typeof(Reveal) !== 'undefined';
+
 
 // Start in state that allows editor to sync its scroll location to the
 // preview.  Otherwise, as soon as the preview loads, it sends its initial
@@ -43,7 +46,7 @@ window.addEventListener('message', (event) => {
             return;
         }
         case 'codebraidPreview.scrollPreview': {
-            if (editorMaxLine === 0) {
+            if (editorMaxLine === 0 || isPresentation) {
                 return;
             }
             isScrollingPreviewWithEditor = true;
@@ -60,6 +63,17 @@ window.addEventListener('message', (event) => {
             );
             return;
         }
+        case 'codebraidPreview.showSlide': {
+            if (editorMaxLine === 0 || !isPresentation) {
+                return;
+            }
+            showSlideWithEditor(message.startLine);
+            return;
+        }
+        case 'codebraidPreview.updateBody': {
+            updateBody(message.bodyHtml);
+            return;
+        }
         case 'codebraidPreview.tempAlert': {
             const alertDiv = document.createElement('div');
             alertDiv.classList.add('codebraid-temp-alert');
@@ -67,7 +81,7 @@ window.addEventListener('message', (event) => {
             switch (message.alertType) {
                 case 'parseError': {
                     if (hasTempAlerts && !message.keepExisting) {
-                        for (const element of document.getElementsByClassName('codebraid-temp-alert')) {
+                        for (const element of Array.from(document.getElementsByClassName('codebraid-temp-alert'))) {
                             element.parentNode.removeChild(element);
                         }
                     }
@@ -105,37 +119,57 @@ window.addEventListener('message', (event) => {
             return;
         }
         case 'codebraidPreview.clearTempAlerts': {
-            if (hasTempAlerts) {
-                for (const className of ['codebraid-temp-alert', 'codebraid-alert-icon']) {
-                    for (const element of document.getElementsByClassName(className)) {
-                        element.parentNode.removeChild(element);
-                    }
-                }
-            }
+            clearTempAlerts();
             return;
         }
     }
 });
 
+function clearTempAlerts() {
+    if (!hasTempAlerts) {
+        return;
+    }
+    for (const className of ['codebraid-temp-alert', 'codebraid-alert-icon']) {
+        // Copy, since collection is live
+        for (const element of Array.from(document.getElementsByClassName(className))) {
+            element.parentNode.removeChild(element);
+        }
+    }
+    hasTempAlerts = false;
+}
+
 
 const baseElement = document.querySelector('base');
 let pandocDefaultDataDir = baseElement.getAttribute('data-pandocdefaultdatadir');
 let pandocDefaultDataDirAsFileUri = baseElement.getAttribute('data-pandocdefaultdatadirasfileuri');
 let pandocDefaultDataDirAsWebviewUri = baseElement.getAttribute('data-pandocdefaultdatadiraswebviewuri');
-for (const elem of document.querySelectorAll('[href]')) {
-    if (elem.href.startsWith(pandocDefaultDataDir)) {
-        elem.href = pandocDefaultDataDirAsWebviewUri + elem.href.slice(pandocDefaultDataDir.length);
-    } else if (elem.href.startsWith(pandocDefaultDataDirAsFileUri)) {
-        elem.href = pandocDefaultDataDirAsWebviewUri + elem.href.slice(pandocDefaultDataDirAsFileUri.length);
+function updatePandocDefaultDataDirUris(root) {
+    if (!pandocDefaultDataDir) {
+        return;
     }
-}
-for (const elem of document.querySelectorAll('[src]')) {
-    if (elem.src.startsWith(pandocDefaultDataDir)) {
-        elem.src = pandocDefaultDataDirAsWebviewUri + elem.src.slice(pandocDefaultDataDir.length);
-    } else if (elem.src.startsWith(pandocDefaultDataDirAsFileUri)) {
-        elem.src = pandocDefaultDataDirAsWebviewUri + elem.src.slice(pandocDefaultDataDirAsFileUri.length);
+    const withRoot = (selector) => {
+        const elems = Array.from(root.querySelectorAll(selector));
+        if (root.nodeType === Node.ELEMENT_NODE && root.matches(selector)) {
+            elems.push(root);
+        }
+        return elems;
+    };
+    for (const elem of withRoot('[href]')) {
+        if (elem.href.startsWith(pandocDefaultDataDir)) {
+            elem.href = pandocDefaultDataDirAsWebviewUri + elem.href.slice(pandocDefaultDataDir.length);
+        } else if (elem.href.startsWith(pandocDefaultDataDirAsFileUri)) {
+            elem.href = pandocDefaultDataDirAsWebviewUri + elem.href.slice(pandocDefaultDataDirAsFileUri.length);
+        }
+    }
+    for (const elem of withRoot('[src]')) {
+        if (elem.src.startsWith(pandocDefaultDataDir)) {
+            elem.src = pandocDefaultDataDirAsWebviewUri + elem.src.slice(pandocDefaultDataDir.length);
+        } else if (elem.src.startsWith(pandocDefaultDataDirAsFileUri)) {
+            elem.src = pandocDefaultDataDirAsWebviewUri + elem.src.slice(pandocDefaultDataDirAsFileUri.length);
+        }
     }
 }
+updatePandocDefaultDataDirUris(document);
 
 
 function scrollPreviewWithEditor(startLine) {
@@ -222,7 +256,7 @@ function webviewVisibleTracker(entries, observer) {
             visibleElements.delete(entry.target);
         }
     }
-    if (!isScrollingPreviewWithEditor && visibleElements.size !== 0) {
+    if (!isScrollingPreviewWithEditor && !isPresentation && visibleElements.size !== 0) {
         scrollEditorWithPreview();
     }
 }
@@ -267,26 +301,50 @@ function scrollEditorWithPreview() {
     );
 }
 let webviewVisibleObserver = new IntersectionObserver(webviewVisibleTracker, {threshold: [0, 0.25, 0.5, 0.75, 1]});
-for (const element of document.querySelectorAll('[data-codebraid-sourcepos-start]')) {
-    if (!element.hasAttribute('data-codebraid-sourcepos-lines')) {
+// Elements currently registered with the observer.  After incremental
+// updates, only new elements are registered and only removed elements are
+// unregistered.
+let observedElements = new Set();
+function observeElement(element) {
+    if (!observedElements.has(element)) {
         webviewVisibleObserver.observe(element);
-        continue;
+        observedElements.add(element);
     }
-    let subElementCount = 0;
-    let startLine = Number(element.getAttribute('data-codebraid-sourcepos-start'));
-    for (let subLine = 1; subLine <= Number(element.getAttribute('data-codebraid-sourcepos-lines')); subLine++) {
-        const subElement = document.getElementById(`${element.id}-${subLine}`);
-        if (subElement) {
-            // Calculate line number assuming fenced code blocks.
-            subElement.setAttribute('data-codebraid-sourcepos-start', `${startLine + subLine}`);
-            webviewVisibleObserver.observe(subElement);
-            subElementCount += 1;
+}
+function observeSourceposElements() {
+    for (const element of observedElements) {
+        if (!element.isConnected) {
+            webviewVisibleObserver.unobserve(element);
+            observedElements.delete(element);
+            visibleElements.delete(element);
         }
     }
-    if (!subElementCount) {
-        webviewVisibleObserver.observe(element);
+    for (const element of document.querySelectorAll('[data-codebraid-sourcepos-start]')) {
+        if (!element.hasAttribute('data-codebraid-sourcepos-lines')) {
+            observeElement(element);
+            continue;
+        }
+        let subElementCount = 0;
+        let startLine = Number(element.getAttribute('data-codebraid-sourcepos-start'));
+        for (let subLine = 1; subLine <= Number(element.getAttribute('data-codebraid-sourcepos-lines')); subLine++) {
+            const subElement = document.getElementById(`${element.id}-${subLine}`);
+            if (subElement) {
+                // Calculate line number assuming fenced code blocks.
+                subElement.setAttribute('data-codebraid-sourcepos-start', `${startLine + subLine}`);
+                observeElement(subElement);
+                subElementCount += 1;
+            }
+        }
+        if (!subElementCount) {
+            observeElement(element);
+        } else if (observedElements.has(element)) {
+            webviewVisibleObserver.unobserve(element);
+            observedElements.delete(element);
+            visibleElements.delete(element);
+        }
     }
 }
+observeSourceposElements();
 
 
 // Disable double-click causing selection, so that it can be used for jumping
@@ -301,7 +359,7 @@ document.addEventListener(
     false
 );
 ondblclick = function(event) {
-    if (editorMaxLine === 0 || visibleElements.size === 0) {
+    if (editorMaxLine === 0 || visibleElements.size === 0 || isPresentation) {
         return;
     }
     let targetY = event.clientY;
@@ -364,6 +422,263 @@ ondblclick = function(event) {
 };
 
 
+// Presentation mode.  Pandoc's reveal.js template initializes the slide show
+// with an inline script, which is blocked by the content security policy, so
+// initialization happens here instead.  Each build reloads the preview, so
+// the current slide is saved in the webview state and restored.
+let isShowingSlideWithEditor = false;
+if (isPresentation) {
+    const plugins = [];
+    for (const plugin of ['RevealNotes', 'RevealSearch', 'RevealZoom']) {
+        if (typeof(window[plugin]) !== 'undefined') {
+            plugins.push(window[plugin]);
+        }
+    }
+    Reveal.initialize({
+        hash: false,
+        history: false,
+        respondToHashChanges: false,
+        controls: true,
+        progress: true,
+        slideNumber: 'c/t',
+        transition: 'none',
+        plugins: plugins,
+    }).then(() => {
+        const state = vscode.getState();
+        if (state && state.presentationSlide) {
+            isShowingSlideWithEditor = true;
+            Reveal.slide(state.presentationSlide.h, state.presentationSlide.v);
+            isShowingSlideWithEditor = false;
+        }
+        Reveal.on('slidechanged', (event) => {
+            vscode.setState({...vscode.getState(), presentationSlide: {h: event.indexh, v: event.indexv}});
+            if (isShowingSlideWithEditor || editorMaxLine === 0) {
+                return;
+            }
+            scrollEditorWithSlide(event.currentSlide);
+        });
+    });
+}
+
+function showSlideWithEditor(startLine) {
+    // Show the slide containing the last element that starts at or before
+    // the editor line
+    let searchLine = Math.min(startLine, editorMaxLine);
+    let element = null;
+    while (!element && searchLine >= editorMinLine && searchLine > 0) {
+        element = document.getElementById(`codebraid-sourcepos-${searchLine}`);
+        searchLine -= 1;
+    }
+    if (!element) {
+        return;
+    }
+    if (element.hasAttribute('data-codebraid-sourcepos-ref')) {
+        element = document.getElementById(element.getAttribute('data-codebraid-sourcepos-ref'));
+        if (!element) {
+            return;
+        }
+    }
+    const slide = element.closest('div.slides section');
+    if (!slide || slide === Reveal.getCurrentSlide()) {
+        return;
+    }
+    const indices = Reveal.getIndices(slide);
+    isShowingSlideWithEditor = true;
+    Reveal.slide(indices.h, indices.v);
+    isShowingSlideWithEditor = false;
+}
+
+function scrollEditorWithSlide(slide) {
+    let element = slide;
+    if (!element.hasAttribute('data-codebraid-sourcepos-start')) {
+        element = slide.querySelector('[data-codebraid-sourcepos-start]');
+    }
+    if (!element) {
+        return;
+    }
+    vscode.postMessage(
+        {
+            command: 'codebraidPreview.scrollEditor',
+            startLine: Number(element.getAttribute('data-codebraid-sourcepos-start')),
+        }
+    );
+}
+
+
+// Incremental updates.  Rather than replacing the entire document after each
+// build, the new body is morphed into the existing body.  Only nodes that
+// have changed are modified, so scroll position, rendered math, loaded
+// images, and the state of elements like `<details>` are retained.
+//
+// Node signatures are used to find unchanged regions.  Sourcepos ids and
+// attributes are excluded from signatures, since inserting a line shifts
+// all following line numbers without otherwise modifying the document.
+const sourceposAttrRegex = /\s(?:id="codebraid-sourcepos-[^"]*"|data-codebraid-sourcepos-[a-z]+="[^"]*"|data-pos="[^"]*")/g;
+let nodeSignatures = new WeakMap();
+function nodeSignature(node) {
+    let signature = nodeSignatures.get(node);
+    if (signature !== undefined) {
+        return signature;
+    }
+    if (node.nodeType === Node.ELEMENT_NODE) {
+        signature = node.outerHTML.replaceAll(sourceposAttrRegex, '');
+    } else {
+        signature = `${node.nodeType}:${node.nodeValue}`;
+    }
+    nodeSignatures.set(node, signature);
+    return signature;
+}
+// Math is rendered by the KaTeX script from Pandoc's HTML template once the
+// document has loaded.  Keep track of the TeX for each math element, so that
+// rendered math is only replaced when it is modified.
+const katexMacros = {};
+for (const element of document.querySelectorAll('span.math')) {
+    element.setAttribute('data-codebraid-math', element.textContent);
+}
+for (const node of document.body.childNodes) {
+    nodeSignature(node);
+}
+function isMathElement(node) {
+    return node.nodeType === Node.ELEMENT_NODE && node.tagName === 'SPAN' && node.classList.contains('math');
+}
+function renderMath(root) {
+    const mathElements = isMathElement(root) ? [root] : root.querySelectorAll('span.math');
+    for (const element of mathElements) {
+        const tex = element.textContent;
+        element.setAttribute('data-codebraid-math', tex);
+        if (typeof(katex) !== 'undefined') {
+            katex.render(tex, element, {
+                displayMode: element.classList.contains('display'),
+                throwOnError: false,
+                macros: katexMacros,
+                fleqn: false,
+            });
+        }
+    }
+}
+function importNewNode(newNode) {
+    const node = document.importNode(newNode, true);
+    if (node.nodeType === Node.ELEMENT_NODE) {
+        updatePandocDefaultDataDirUris(node);
+        renderMath(node);
+    }
+    return node;
+}
+function morphAttributes(oldElement, newElement) {
+    for (const attr of Array.from(oldElement.attributes)) {
+        if (attr.name === 'open' && oldElement.tagName === 'DETAILS') {
+            // Retain user-modified state
+            continue;
+        }
+        if (!newElement.hasAttribute(attr.name)) {
+            oldElement.removeAttribute(attr.name);
+        }
+    }
+    for (const attr of newElement.attributes) {
+        if (attr.name === 'open' && oldElement.tagName === 'DETAILS') {
+            continue;
+        }
+        if (oldElement.getAttribute(attr.name) !== attr.value) {
+            if ((attr.name === 'href' || attr.name === 'src') && pandocDefaultDataDir) {
+                // Compare after any data dir rewriting
+                const temp = importNewNode(newElement.cloneNode(false));
+                if (oldElement.getAttribute(attr.name) === temp.getAttribute(attr.name)) {
+                    continue;
+                }
+                oldElement.setAttribute(attr.name, temp.getAttribute(attr.name));
+                continue;
+            }
+            oldElement.setAttribute(attr.name, attr.value);
+        }
+    }
+}
+function morphNode(oldNode, newNode) {
+    // Returns the node that is in the document after morphing
+    if (oldNode.nodeType !== newNode.nodeType || oldNode.nodeName !== newNode.nodeName) {
+        const node = importNewNode(newNode);
+        oldNode.replaceWith(node);
+        return node;
+    }
+    if (oldNode.nodeType !== Node.ELEMENT_NODE) {
+        if (oldNode.nodeValue !== newNode.nodeValue) {
+            oldNode.nodeValue = newNode.nodeValue;
+        }
+        return oldNode;
+    }
+    if (isMathElement(oldNode)) {
+        if (oldNode.getAttribute('data-codebraid-math') === newNode.textContent && oldNode.className === newNode.className) {
+            return oldNode;
+        }
+        const node = importNewNode(newNode);
+        oldNode.replaceWith(node);
+        return node;
+    }
+    morphAttributes(oldNode, newNode);
+    morphChildren(oldNode, newNode);
+    return oldNode;
+}
+function morphChildren(oldParent, newParent) {
+    const oldChildren = Array.from(oldParent.childNodes);
+    const newChildren = Array.from(newParent.childNodes);
+    let start = 0;
+    while (start < oldChildren.length && start < newChildren.length && nodeSignature(oldChildren[start]) === nodeSignature(newChildren[start])) {
+        start += 1;
+    }
+    let oldEnd = oldChildren.length;
+    let newEnd = newChildren.length;
+    while (oldEnd > start && newEnd > start && nodeSignature(oldChildren[oldEnd - 1]) === nodeSignature(newChildren[newEnd - 1])) {
+        oldEnd -= 1;
+        newEnd -= 1;
+    }
+    // Modified region first, then unchanged regions, which only need
+    // sourcepos updates.  Unchanged nodes are never replaced, so they are
+    // valid insertion references.
+    const pairedLength = Math.min(oldEnd - start, newEnd - start);
+    const morph = (oldIndex, newIndex) => {
+        const node = morphNode(oldChildren[oldIndex], newChildren[newIndex]);
+        nodeSignatures.set(node, nodeSignature(newChildren[newIndex]));
+    };
+    for (let n = 0; n < pairedLength; n++) {
+        morph(start + n, start + n);
+    }
+    for (let n = start + pairedLength; n < oldEnd; n++) {
+        oldParent.removeChild(oldChildren[n]);
+    }
+    const referenceNode = oldEnd < oldChildren.length ? oldChildren[oldEnd] : null;
+    for (let n = start + pairedLength; n < newEnd; n++) {
+        const node = importNewNode(newChildren[n]);
+        nodeSignatures.set(node, nodeSignature(newChildren[n]));
+        oldParent.insertBefore(node, referenceNode);
+    }
+    for (let n = 0; n < start; n++) {
+        morph(n, n);
+    }
+    for (let n = 0; oldEnd + n < oldChildren.length; n++) {
+        morph(oldEnd + n, newEnd + n);
+    }
+}
+function updateBody(bodyHtml) {
+    clearTempAlerts();
+    const newDocument = new DOMParser().parseFromString(`<!DOCTYPE html><html><head></head><body>${bodyHtml}</body></html>`, 'text/html');
+    const toolbarParent = toolbarDiv.parentNode;
+    if (toolbarParent) {
+        toolbarParent.removeChild(toolbarDiv);
+    }
+    morphChildren(document.body, newDocument.body);
+    document.body.append(toolbarDiv);
+    codebraidSourceposMetaElement = document.getElementById('codebraid-sourcepos-meta');
+    if (codebraidSourceposMetaElement) {
+        editorMinLine = Number(codebraidSourceposMetaElement.getAttribute('data-codebraid-sourcepos-min'));
+        editorMaxLine = Number(codebraidSourceposMetaElement.getAttribute('data-codebraid-sourcepos-max'));
+    } else {
+        editorMinLine = 0;
+        editorMaxLine = 0;
+    }
+    codebraidSourceposMaxElement = codebraidSourceposMetaElement;
+    observeSourceposElements();
+}
+
+
 const toolbarDiv = document.createElement('div');
 document.body.append(toolbarDiv);
 toolbarDiv.classList.add('codebraid-toolbar');
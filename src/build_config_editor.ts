@@ -0,0 +1,339 @@
+// Copyright (c) 2024, Geoffrey M. Poore
+// All rights reserved.
+//
+// Licensed under the BSD 3-Clause License:
+// http://opensource.org/licenses/BSD-3-Clause
+//
+
+
+import * as vscode from 'vscode';
+
+import * as crypto from 'crypto';
+import * as yaml from 'js-yaml';
+
+import type { ExtensionState } from './types';
+import { webviewResources } from './resources';
+import { optionRegex, validateBuildSettings, mergeBuildSettingsLayer } from './pandoc_build_configs';
+import type { BuildSettingsError } from './pandoc_build_configs';
+import { buildKeyRegex, projectConfigFileName, replaceProjectConfigBuild } from './project_config';
+
+
+// Graphical editor for `codebraid.preview.pandoc.build`.  Build settings are
+// loaded from and saved to a target:  user settings, workspace settings, or
+// the project configuration file in a workspace folder.  The webview
+// validates options and file extensions as they are typed, and the whole
+// configuration is validated by the extension with the same code that is
+// used for loading settings.  File extensions that the target inherits from
+// lower settings layers (such as the extension's defaults) are shown
+// read-only, so that they are only copied into the target when overridden.
+type BuildConfigEditorTarget = {
+	id: string,
+	label: string,
+};
+
+
+export class BuildConfigEditorPanel implements vscode.Disposable {
+	private extension: ExtensionState;
+	private panel: vscode.WebviewPanel | undefined;
+	private disposables: Array<vscode.Disposable>;
+	private target: string;
+	private onDisposeExtensionCallback?: () => void;
+
+	constructor(extension: ExtensionState) {
+		this.extension = extension;
+		this.disposables = [];
+		this.target = vscode.workspace.workspaceFolders ? 'workspace' : 'user';
+
+		this.panel = vscode.window.createWebviewPanel(
+			'codebraidPreview.buildConfigEditor',
+			'Codebraid Preview Build Configurations',
+			vscode.ViewColumn.Active,
+			{
+				enableScripts: true,
+				retainContextWhenHidden: true,
+				localResourceRoots: extension.resourceRootUris,
+			}
+		);
+		this.panel.onDidDispose(
+			() => {
+				if (this.panel) {
+					this.panel = undefined;
+					this.dispose();
+				}
+			},
+			this,
+			this.disposables
+		);
+		this.panel.webview.onDidReceiveMessage(
+			this.onDidReceiveMessage,
+			this,
+			this.disposables
+		);
+		this.panel.webview.html = this.getHtml(this.panel.webview);
+	}
+
+	dispose() {
+		if (this.panel) {
+			const panel = this.panel;
+			this.panel = undefined;
+			panel.dispose();
+		}
+		for (const disposable of this.disposables) {
+			disposable.dispose();
+		}
+		this.disposables = [];
+		if (this.onDisposeExtensionCallback) {
+			this.onDisposeExtensionCallback();
+			this.onDisposeExtensionCallback = undefined;
+		}
+	}
+
+	registerOnDisposeCallback(callback: () => void) {
+		this.onDisposeExtensionCallback = callback;
+	}
+
+	show() {
+		this.panel?.reveal();
+	}
+
+	private getHtml(webview: vscode.Webview) : string {
+		const nonce = crypto.randomBytes(16).toString('base64');
+		const resourceUri = (resource: string) => webview.asWebviewUri(vscode.Uri.file(this.extension.context.asAbsolutePath(resource)));
+		return `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="UTF-8">
+	<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource}; font-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
+	<meta name="viewport" content="width=device-width, initial-scale=1.0">
+	<link rel="stylesheet" href="${resourceUri(webviewResources.vscodeCodiconCss)}">
+	<link rel="stylesheet" href="${resourceUri(webviewResources.buildConfigEditorCss)}">
+	<title>Codebraid Preview Build Configurations</title>
+</head>
+<body>
+	<div id="toolbar"></div>
+	<div id="build-config"></div>
+	<script nonce="${nonce}" src="${resourceUri(webviewResources.buildConfigEditorJs)}"></script>
+</body>
+</html>`;
+	}
+
+	private getTargets() : Array<BuildConfigEditorTarget> {
+		const targets: Array<BuildConfigEditorTarget> = [{id: 'user', label: 'User settings'}];
+		if (vscode.workspace.workspaceFolders) {
+			targets.push({id: 'workspace', label: 'Workspace settings'});
+			for (const [index, workspaceFolder] of vscode.workspace.workspaceFolders.entries()) {
+				targets.push({id: `project:${index}`, label: `Project file (${workspaceFolder.name}/${projectConfigFileName})`});
+			}
+		}
+		return targets;
+	}
+
+	private getProjectConfigFileUri(target: string) : vscode.Uri | undefined {
+		if (!target.startsWith('project:')) {
+			return undefined;
+		}
+		const workspaceFolder = vscode.workspace.workspaceFolders?.[Number(target.slice('project:'.length))];
+		if (!workspaceFolder) {
+			return undefined;
+		}
+		return vscode.Uri.joinPath(workspaceFolder.uri, projectConfigFileName);
+	}
+
+	private async readProjectConfigText(uri: vscode.Uri) : Promise<string> {
+		// Missing files are treated as empty
+		try {
+			return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+		} catch {
+			return '';
+		}
+	}
+
+	private async readProjectConfigData(uri: vscode.Uri, text?: string) : Promise<{[key: string]: any}> {
+		// Invalid files result in errors, so that they are never overwritten
+		if (text === undefined) {
+			text = await this.readProjectConfigText(uri);
+		}
+		const data = yaml.load(text, {filename: uri.fsPath});
+		if (data === undefined || data === null) {
+			return {};
+		}
+		if (typeof(data) !== 'object' || Array.isArray(data)) {
+			throw new Error(`"${vscode.workspace.asRelativePath(uri)}" does not contain a mapping`);
+		}
+		return data;
+	}
+
+	private async loadBuildSettings(target: string) : Promise<any> {
+		const projectConfigFileUri = this.getProjectConfigFileUri(target);
+		if (projectConfigFileUri) {
+			const data = await this.readProjectConfigData(projectConfigFileUri);
+			return data.build === undefined || data.build === null ? {} : data.build;
+		}
+		const inspected = vscode.workspace.getConfiguration('codebraid.preview').inspect('pandoc.build');
+		if (target === 'workspace') {
+			return inspected?.workspaceValue || {};
+		}
+		return inspected?.globalValue || {};
+	}
+
+	private async saveBuildSettings(target: string, build: any) {
+		const projectConfigFileUri = this.getProjectConfigFileUri(target);
+		if (projectConfigFileUri) {
+			// Only `build` is replaced, so that the rest of the file is
+			// unchanged
+			const text = await this.readProjectConfigText(projectConfigFileUri);
+			await this.readProjectConfigData(projectConfigFileUri, text);
+			await vscode.workspace.fs.writeFile(projectConfigFileUri, Buffer.from(replaceProjectConfigBuild(text, build), 'utf8'));
+			return;
+		}
+		await vscode.workspace.getConfiguration('codebraid.preview').update(
+			'pandoc.build',
+			build,
+			target === 'workspace' ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global
+		);
+	}
+
+	private getInheritedBuildSettings(target: string) : {[key: string]: any} {
+		// Merged build settings from the settings layers that `target` is
+		// merged over.  Project configuration files don't inherit from each
+		// other.
+		const inspected = vscode.workspace.getConfiguration('codebraid.preview').inspect('pandoc.build');
+		let inheritedBuild: {[key: string]: any} = mergeBuildSettingsLayer({}, inspected?.defaultValue, false);
+		if (target !== 'user') {
+			inheritedBuild = mergeBuildSettingsLayer(inheritedBuild, inspected?.globalValue, false);
+		}
+		if (target !== 'user' && target !== 'workspace') {
+			inheritedBuild = mergeBuildSettingsLayer(inheritedBuild, inspected?.workspaceValue, false);
+		}
+		return inheritedBuild;
+	}
+
+	private async getOtherBuildSettings(target: string) : Promise<{[key: string]: any}> {
+		// Merged build settings from all targets except `target`, in the
+		// order that they are merged when settings are loaded.  Project
+		// configuration files that can't be loaded are skipped.
+		const inspected = vscode.workspace.getConfiguration('codebraid.preview').inspect('pandoc.build');
+		let otherBuild: {[key: string]: any} = mergeBuildSettingsLayer({}, inspected?.defaultValue, false);
+		if (target !== 'user') {
+			otherBuild = mergeBuildSettingsLayer(otherBuild, inspected?.globalValue, false);
+		}
+		if (target !== 'workspace') {
+			otherBuild = mergeBuildSettingsLayer(otherBuild, inspected?.workspaceValue, false);
+		}
+		for (const otherTarget of this.getTargets()) {
+			if (otherTarget.id === target || !otherTarget.id.startsWith('project:')) {
+				continue;
+			}
+			let projectBuild: any;
+			try {
+				projectBuild = await this.loadBuildSettings(otherTarget.id);
+			} catch {
+				continue;
+			}
+			otherBuild = mergeBuildSettingsLayer(otherBuild, projectBuild, true);
+		}
+		return otherBuild;
+	}
+
+	private async validateBuildSettings(target: string, build: any) : Promise<Array<BuildSettingsError>> {
+		return validateBuildSettings(
+			build,
+			await this.getOtherBuildSettings(target),
+			target.startsWith('project:'),
+			this.extension.context,
+			this.extension.config
+		);
+	}
+
+	private async sendBuildSettings(target: string) {
+		if (!this.panel) {
+			return;
+		}
+		let build: any;
+		try {
+			build = await this.loadBuildSettings(target);
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to load build configurations:  ${error}`);
+			build = undefined;
+		}
+		if (build === undefined) {
+			// Stay with the current target
+			target = this.target;
+			build = await this.loadBuildSettings(target).catch(() => ({}));
+		}
+		this.target = target;
+		this.panel.webview.postMessage({
+			command: 'codebraidPreview.loadBuildConfig',
+			target: this.target,
+			targets: this.getTargets(),
+			build: build,
+			inheritedBuild: this.getInheritedBuildSettings(this.target),
+			optionPattern: optionRegex.source,
+			fileExtensionPattern: buildKeyRegex.source,
+		});
+	}
+
+	private async onDidReceiveMessage(message: any) {
+		if (!this.panel) {
+			return;
+		}
+		switch (message.command) {
+			case 'codebraidPreview.ready': {
+				await this.sendBuildSettings(this.target);
+				return;
+			}
+			case 'codebraidPreview.selectBuildConfigTarget': {
+				if (message.isDirty) {
+					const choice = await vscode.window.showWarningMessage(
+						'Discard unsaved changes to build configurations?',
+						{modal: true},
+						'Discard'
+					);
+					if (choice !== 'Discard') {
+						this.panel.webview.postMessage({command: 'codebraidPreview.selectedBuildConfigTarget', target: this.target});
+						return;
+					}
+				}
+				await this.sendBuildSettings(message.target);
+				return;
+			}
+			case 'codebraidPreview.validateBuildConfig': {
+				const errors = await this.validateBuildSettings(this.target, message.build);
+				this.panel?.webview.postMessage({
+					command: 'codebraidPreview.buildConfigErrors',
+					validationId: message.validationId,
+					errors: errors,
+				});
+				return;
+			}
+			case 'codebraidPreview.saveBuildConfig': {
+				// Errors in the edited settings must be fixed before saving,
+				// while errors from other settings can't be fixed here
+				const errors = await this.validateBuildSettings(message.target, message.build);
+				if (message.hasErrors || errors.some((error) => !error.isFromOtherSettings)) {
+					vscode.window.showErrorMessage('Cannot save build configurations until the errors are fixed');
+					return;
+				}
+				if (errors.length > 0) {
+					const choice = await vscode.window.showWarningMessage(
+						'Build configurations from other settings have errors.  Invalid build configurations will be ignored until the errors are fixed.',
+						{modal: true},
+						'Save Anyway'
+					);
+					if (choice !== 'Save Anyway') {
+						return;
+					}
+				}
+				try {
+					await this.saveBuildSettings(message.target, message.build);
+				} catch (error) {
+					vscode.window.showErrorMessage(`Failed to save build configurations:  ${error}`);
+					return;
+				}
+				this.target = message.target;
+				this.panel?.webview.postMessage({command: 'codebraidPreview.savedBuildConfig'});
+				return;
+			}
+		}
+	}
+}
@@ -0,0 +1,277 @@
+// Copyright (c) 2024, Geoffrey M. Poore
+// All rights reserved.
+//
+// Licensed under the BSD 3-Clause License:
+// http://opensource.org/licenses/BSD-3-Clause
+//
+
+
+import * as path from 'path';
+
+
+// Location of a Codebraid code chunk in the document source.  Lines are
+// zero-indexed.
+export type CodebraidChunk = {
+	key: string,
+	// One-indexed position within the code collection, as in Codebraid
+	// output messages
+	index: number,
+	// Index of the source containing the chunk, since a file may be
+	// included multiple times
+	sourceIndex: number,
+	fileName: string,
+	startLine: number,
+	startColumn: number,
+	endLine: number,
+	isInline: boolean,
+	isSession: boolean,
+	// Columns of the attributes `{...}`, which are on `startLine`
+	attrStartColumn: number,
+	attrEndColumn: number,
+};
+
+export type CodebraidChunkError = {
+	isStderr: boolean,
+	text: string,
+};
+
+
+const executeClasses = new Set(['cb-expr', 'cb-nb', 'cb-run', 'cb-repl']);
+const fenceStartRegex = /^ {0,3}(`{3,}|~{3,})[ \t]*\{([^}\n]*)\}[ \t]*$/;
+const fenceOtherStartRegex = /^ {0,3}(`{3,}|~{3,})/;
+const inlineCodeRegex = /(?<!`)(`+)(?!`)(.+?)(?<!`)\1(?!`)\{([^}\n]*)\}/g;
+const attrRegex = /\.([^\s}]+)|#([^\s}]+)|([^\s=}]+)=(?:"((?:[^"\\]|\\.)*)"|([^\s}]+))/g;
+
+
+function getClosingFenceRegex(fence: string) : RegExp {
+	return new RegExp(`^ {0,3}${fence[0]}{${fence.length},}[ \\t]*$`);
+}
+
+function parseAttr(attrString: string) : {classes: Array<string>, attributes: Map<string, string>} {
+	const classes: Array<string> = [];
+	const attributes: Map<string, string> = new Map();
+	for (const match of attrString.matchAll(attrRegex)) {
+		if (match[1] !== undefined) {
+			classes.push(match[1]);
+		} else if (match[3] !== undefined) {
+			attributes.set(match[3], match[4] !== undefined ? match[4].replace(/\\(.)/g, '$1') : match[5]);
+		}
+	}
+	return {classes, attributes};
+}
+
+
+export function findCodebraidChunks(
+	sources: Array<{fileName: string, fileText: string}>,
+	isCommonmark: boolean,
+	placeholderLangs: Map<string, string>
+) : Array<CodebraidChunk> {
+	// Find code chunks and determine their code collection keys.  This
+	// follows the `codebraid_output.lua` filter, which determines which
+	// output belongs to each chunk in the preview.
+	const chunks: Array<CodebraidChunk> = [];
+	const keyIndex: Map<string, number> = new Map();
+	let placeholderLangNum = 0;
+	const getKey = (attrString: string) : [string, boolean] | undefined => {
+		const {classes, attributes} = parseAttr(attrString);
+		for (const [index, cls] of classes.entries()) {
+			if (!(cls.startsWith('cb-') || (!isCommonmark && cls.startsWith('cb.')))) {
+				continue;
+			}
+			let lang = index > 0 ? classes[0] : '';
+			if (lang === '') {
+				const actualLang = placeholderLangs.get(`${placeholderLangNum}`);
+				if (actualLang !== undefined) {
+					lang = actualLang;
+					placeholderLangNum += 1;
+				}
+			}
+			const collectionType = executeClasses.has(cls.replace('.', '-')) ? 'session' : 'source';
+			const collectionName = attributes.get(collectionType) || '';
+			return [`${collectionType}.${lang}.${collectionName}`, collectionType === 'session'];
+		}
+		return undefined;
+	};
+	const addChunk = (chunk: Omit<CodebraidChunk, 'key' | 'index' | 'isSession'>, keyIsSession: [string, boolean]) => {
+		const [key, isSession] = keyIsSession;
+		const index = (keyIndex.get(key) || 0) + 1;
+		keyIndex.set(key, index);
+		chunks.push({key, index, isSession, ...chunk});
+	};
+
+	for (const [sourceIndex, source] of sources.entries()) {
+		const lines = source.fileText.split(/\r?\n/);
+		let lineNumber = 0;
+		while (lineNumber < lines.length) {
+			const line = lines[lineNumber];
+			const fenceMatch = line.match(fenceStartRegex) || line.match(fenceOtherStartRegex);
+			if (fenceMatch) {
+				const closingFenceRegex = getClosingFenceRegex(fenceMatch[1]);
+				let endLine = lineNumber + 1;
+				while (endLine < lines.length && !closingFenceRegex.test(lines[endLine])) {
+					endLine += 1;
+				}
+				if (fenceMatch[2] !== undefined) {
+					const keyIsSession = getKey(fenceMatch[2]);
+					if (keyIsSession !== undefined) {
+						addChunk(
+							{
+								sourceIndex: sourceIndex,
+								fileName: source.fileName,
+								startLine: lineNumber,
+								startColumn: 0,
+								endLine: Math.min(endLine, lines.length - 1),
+								isInline: false,
+								attrStartColumn: line.lastIndexOf('{'),
+								attrEndColumn: line.lastIndexOf('}') + 1,
+							},
+							keyIsSession
+						);
+					}
+				}
+				lineNumber = endLine + 1;
+				continue;
+			}
+			if (line.indexOf('`') !== -1) {
+				for (const match of line.matchAll(inlineCodeRegex)) {
+					const keyIsSession = getKey(match[3]);
+					if (keyIsSession !== undefined) {
+						const matchIndex = match.index as number;
+						addChunk(
+							{
+								sourceIndex: sourceIndex,
+								fileName: source.fileName,
+								startLine: lineNumber,
+								startColumn: matchIndex,
+								endLine: lineNumber,
+								isInline: true,
+								attrStartColumn: matchIndex + match[0].length - match[3].length - 2,
+								attrEndColumn: matchIndex + match[0].length,
+							},
+							keyIsSession
+						);
+					}
+				}
+			}
+			lineNumber += 1;
+		}
+	}
+	return chunks;
+}
+
+
+export function disableCodebraidChunks(
+	sources: Array<{fileName: string, fileText: string}>,
+	chunks: Array<CodebraidChunk>
+) : Array<string> {
+	// Return source text with the specified chunks converted into ordinary
+	// code, by renaming their Codebraid classes.  Line numbers are unchanged,
+	// so output and errors still refer to the correct lines.
+	const sourceLines: Array<Array<string> | undefined> = [];
+	for (const chunk of chunks) {
+		let lines = sourceLines[chunk.sourceIndex];
+		if (!lines) {
+			lines = sources[chunk.sourceIndex].fileText.split('\n');
+			sourceLines[chunk.sourceIndex] = lines;
+		}
+		const line = lines[chunk.startLine];
+		const attr = line.slice(chunk.attrStartColumn, chunk.attrEndColumn).replace(/(?<=^\{|\s)\.cb(?=[-.])/g, '.disabled-cb');
+		lines[chunk.startLine] = line.slice(0, chunk.attrStartColumn) + attr + line.slice(chunk.attrEndColumn);
+	}
+	const texts: Array<string> = [];
+	for (const [sourceIndex, source] of sources.entries()) {
+		const lines = sourceLines[sourceIndex];
+		texts.push(lines ? lines.join('\n') : source.fileText);
+	}
+	return texts;
+}
+
+
+export function getCodebraidCollectionTexts(
+	sources: Array<{fileName: string, fileText: string}>,
+	chunks: Array<CodebraidChunk>
+) : Map<string, string> {
+	// Text of all chunks in each code collection, including attributes, for
+	// detecting which code collections have been modified
+	const sourceLines: Array<Array<string> | undefined> = [];
+	const collectionTexts: Map<string, Array<string>> = new Map();
+	for (const chunk of chunks) {
+		let lines = sourceLines[chunk.sourceIndex];
+		if (!lines) {
+			lines = sources[chunk.sourceIndex].fileText.split(/\r?\n/);
+			sourceLines[chunk.sourceIndex] = lines;
+		}
+		let texts = collectionTexts.get(chunk.key);
+		if (!texts) {
+			texts = [];
+			collectionTexts.set(chunk.key, texts);
+		}
+		if (chunk.isInline) {
+			texts.push(lines[chunk.startLine].slice(chunk.startColumn, chunk.attrEndColumn));
+		} else {
+			texts.push(...lines.slice(chunk.startLine, chunk.endLine + 1));
+		}
+	}
+	const collectionTextStrings: Map<string, string> = new Map();
+	for (const [key, texts] of collectionTexts) {
+		collectionTextStrings.set(key, texts.join('\n'));
+	}
+	return collectionTextStrings;
+}
+
+
+const outputFenceStartRegex = /^(`{3,}|~{3,})[ \t]*\{([^}\n]*)\}[ \t]*$/;
+const outputInlineRegex = /(?<!`)(`+)(?!`)(.+?)(?<!`)\1(?!`)\{([^}\n]*)\}/gs;
+
+export function findCodebraidChunkErrors(outputMarkdown: Array<string>) : Array<CodebraidChunkError> {
+	// Codebraid output is Markdown, with errors and stderr in code blocks or
+	// inline code with class `error` or `stderr`
+	const errors: Array<CodebraidChunkError> = [];
+	const addError = (attrString: string, text: string) => {
+		const {classes} = parseAttr(attrString);
+		if (classes.indexOf('error') !== -1) {
+			errors.push({isStderr: false, text: text});
+		} else if (classes.indexOf('stderr') !== -1) {
+			errors.push({isStderr: true, text: text});
+		}
+	};
+	for (const md of outputMarkdown) {
+		const lines = md.split(/\r?\n/);
+		let lineNumber = 0;
+		const otherLines: Array<string> = [];
+		while (lineNumber < lines.length) {
+			const fenceMatch = lines[lineNumber].match(outputFenceStartRegex);
+			if (!fenceMatch) {
+				otherLines.push(lines[lineNumber]);
+				lineNumber += 1;
+				continue;
+			}
+			const closingFenceRegex = getClosingFenceRegex(fenceMatch[1]);
+			let endLine = lineNumber + 1;
+			while (endLine < lines.length && !closingFenceRegex.test(lines[endLine])) {
+				endLine += 1;
+			}
+			addError(fenceMatch[2], lines.slice(lineNumber + 1, endLine).join('\n'));
+			lineNumber = endLine + 1;
+		}
+		for (const match of otherLines.join('\n').matchAll(outputInlineRegex)) {
+			addError(match[3], match[2].trim());
+		}
+	}
+	return errors;
+}
+
+
+export function findCodebraidErrorLine(errorText: string, fileName: string) : number | undefined {
+	// Codebraid rewrites error messages to refer to the document source,
+	// so tracebacks may give a line number in the document.  Returns a
+	// zero-indexed line.
+	const baseName = path.basename(fileName);
+	let errorLine: number | undefined;
+	for (const match of errorText.matchAll(/"([^"\n]+)", line (\d+)/g)) {
+		if (path.basename(match[1]) === baseName) {
+			errorLine = Number(match[2]) - 1;
+		}
+	}
+	return errorLine;
+}
@@ -0,0 +1,167 @@
+// Copyright (c) 2024, Geoffrey M. Poore
+// All rights reserved.
+//
+// Licensed under the BSD 3-Clause License:
+// http://opensource.org/licenses/BSD-3-Clause
+//
+
+
+import * as vscode from 'vscode';
+
+import * as path from 'path';
+
+import type PreviewPanel from './preview_panel';
+
+
+export type CodebraidCollectionStatus = 'waiting' | 'running' | 'done' | 'stale' | 'error';
+
+export type CodebraidCollectionInfo = {
+	key: string,
+	type: string,
+	lang: string,
+	name: string,
+	status: CodebraidCollectionStatus,
+	// Milliseconds; undefined if the code collection hasn't run since the
+	// preview opened
+	elapsedTime: number | undefined,
+	// Location of the first chunk in the code collection (zero-indexed line)
+	fileName: string | undefined,
+	line: number | undefined,
+};
+
+
+const statusIcons: {[key in CodebraidCollectionStatus]: vscode.ThemeIcon} = {
+	waiting: new vscode.ThemeIcon('clock'),
+	running: new vscode.ThemeIcon('sync~spin'),
+	done: new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed')),
+	stale: new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground')),
+	error: new vscode.ThemeIcon('error', new vscode.ThemeColor('list.errorForeground')),
+};
+
+// Refresh interval for elapsed times while code is running
+const runningRefreshInterval = 1000;
+
+
+type SessionsTreeItem = {
+	preview: PreviewPanel,
+	collection: CodebraidCollectionInfo | undefined,
+};
+
+
+export class CodebraidSessionsTreeDataProvider implements vscode.TreeDataProvider<SessionsTreeItem>, vscode.Disposable {
+	// Tree with a node for each previewed document that uses Codebraid, and
+	// a child node for each of its code collections (sessions and sources)
+	private getPreviews: () => Iterable<PreviewPanel>;
+	private onDidChangeTreeDataEmitter: vscode.EventEmitter<void>;
+	readonly onDidChangeTreeData: vscode.Event<void>;
+	private refreshTimer: NodeJS.Timeout | undefined;
+	private runningRefreshTimer: NodeJS.Timeout | undefined;
+
+	constructor(getPreviews: () => Iterable<PreviewPanel>) {
+		this.getPreviews = getPreviews;
+		this.onDidChangeTreeDataEmitter = new vscode.EventEmitter<void>();
+		this.onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+	}
+
+	dispose() {
+		for (const timer of [this.refreshTimer, this.runningRefreshTimer]) {
+			if (timer) {
+				clearTimeout(timer);
+			}
+		}
+		this.onDidChangeTreeDataEmitter.dispose();
+	}
+
+	refresh() {
+		// Status can change with every Codebraid message, so refreshes are
+		// batched
+		if (this.refreshTimer) {
+			return;
+		}
+		this.refreshTimer = setTimeout(
+			() => {
+				this.refreshTimer = undefined;
+				this.onDidChangeTreeDataEmitter.fire();
+				this.updateRunningRefresh();
+			},
+			100
+		);
+	}
+
+	private updateRunningRefresh() {
+		let hasCodebraidInProgress = false;
+		let hasCodebraidPreviews = false;
+		for (const preview of this.getPreviews()) {
+			if (preview.panel && preview.usingCodebraid) {
+				hasCodebraidPreviews = true;
+				if (preview.isCodebraidInProgress) {
+					hasCodebraidInProgress = true;
+				}
+			}
+		}
+		vscode.commands.executeCommand('setContext', 'codebraidPreview.hasCodebraidPreviews', hasCodebraidPreviews);
+		if (hasCodebraidInProgress && !this.runningRefreshTimer) {
+			this.runningRefreshTimer = setInterval(() => {this.onDidChangeTreeDataEmitter.fire();}, runningRefreshInterval);
+		} else if (!hasCodebraidInProgress && this.runningRefreshTimer) {
+			clearInterval(this.runningRefreshTimer);
+			this.runningRefreshTimer = undefined;
+		}
+	}
+
+	getChildren(element?: SessionsTreeItem) : Array<SessionsTreeItem> {
+		if (!element) {
+			const items: Array<SessionsTreeItem> = [];
+			for (const preview of this.getPreviews()) {
+				if (preview.panel && preview.usingCodebraid) {
+					items.push({preview: preview, collection: undefined});
+				}
+			}
+			return items;
+		}
+		if (element.collection) {
+			return [];
+		}
+		return element.preview.getCodebraidCollectionInfo().map((collection) => {
+			return {preview: element.preview, collection: collection};
+		});
+	}
+
+	getTreeItem(element: SessionsTreeItem) : vscode.TreeItem {
+		if (!element.collection) {
+			const treeItem = new vscode.TreeItem(
+				path.basename(element.preview.fileNames[0]),
+				vscode.TreeItemCollapsibleState.Expanded
+			);
+			treeItem.resourceUri = vscode.Uri.file(element.preview.fileNames[0]);
+			treeItem.iconPath = vscode.ThemeIcon.File;
+			if (element.preview.isCodebraidInProgress) {
+				treeItem.description = 'running';
+			}
+			return treeItem;
+		}
+		const collection = element.collection;
+		const treeItem = new vscode.TreeItem(
+			collection.name ? collection.name : `(default ${collection.type})`,
+			vscode.TreeItemCollapsibleState.None
+		);
+		const descriptionList: Array<string> = [];
+		if (collection.lang) {
+			descriptionList.push(collection.lang);
+		}
+		descriptionList.push(collection.status);
+		if (collection.elapsedTime !== undefined) {
+			descriptionList.push(`${(collection.elapsedTime / 1000).toFixed(1)} s`);
+		}
+		treeItem.description = descriptionList.join(' · ');
+		treeItem.tooltip = `${collection.type} "${collection.name}" (${collection.lang || 'unknown language'}): ${collection.status}`;
+		treeItem.iconPath = statusIcons[collection.status];
+		if (collection.fileName !== undefined && collection.line !== undefined) {
+			treeItem.command = {
+				title: 'Reveal code collection',
+				command: 'codebraidPreview.revealCodebraidCollection',
+				arguments: [vscode.Uri.file(collection.fileName), collection.line],
+			};
+		}
+		return treeItem;
+	}
+}
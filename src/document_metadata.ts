@@ -0,0 +1,71 @@
+// Copyright (c) 2024, Geoffrey M. Poore
+// All rights reserved.
+//
+// Licensed under the BSD 3-Clause License:
+// http://opensource.org/licenses/BSD-3-Clause
+//
+
+
+import * as yaml from 'js-yaml';
+
+
+// Settings for Codebraid Preview in document YAML metadata, under the key
+// `codebraid_preview`:
+//
+// ---
+// codebraid_preview:
+//   run_on_save: true
+//   preview: html
+//   export: [PDF, Word]
+// ---
+//
+// `preview` and `export` are names of build configurations for the
+// document's file extension.  `export` may be a single name or a list.
+export type DocumentMetadata = {
+	runOnSave: boolean | undefined,
+	preview: string | undefined,
+	export: Array<string> | undefined,
+};
+
+
+const yamlFrontMatterRegex = /^---[ \t]*\r?\n(.*?\r?\n)?(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/s;
+
+
+export function readDocumentMetadata(text: string) : DocumentMetadata {
+	// Only the front matter at the start of the document is used.  Invalid
+	// YAML is ignored, since Pandoc reports it during the preview build.
+	const metadata: DocumentMetadata = {
+		runOnSave: undefined,
+		preview: undefined,
+		export: undefined,
+	};
+	const match = text.match(yamlFrontMatterRegex);
+	if (!match || !match[1]) {
+		return metadata;
+	}
+	let data: any;
+	try {
+		data = yaml.load(match[1]);
+	} catch {
+		return metadata;
+	}
+	if (typeof(data) !== 'object' || data === null) {
+		return metadata;
+	}
+	const previewData: any = data.codebraid_preview;
+	if (typeof(previewData) !== 'object' || previewData === null) {
+		return metadata;
+	}
+	if (typeof(previewData.run_on_save) === 'boolean') {
+		metadata.runOnSave = previewData.run_on_save;
+	}
+	if (typeof(previewData.preview) === 'string') {
+		metadata.preview = previewData.preview;
+	}
+	if (typeof(previewData.export) === 'string') {
+		metadata.export = [previewData.export];
+	} else if (Array.isArray(previewData.export)) {
+		metadata.export = previewData.export.filter((name: any) => typeof(name) === 'string');
+	}
+	return metadata;
+}
@@ -1,4 +1,4 @@
-// Copyright (c) 2023, Geoffrey M. Poore
+// Copyright (c) 2023-2024, Geoffrey M. Poore
 // All rights reserved.
 //
 // Licensed under the BSD 3-Clause License:
@@ -8,3 +8,14 @@
 
 export default class CodebraidPreviewError extends Error {
 }
+
+// Invalid build configuration.  `keyPath` locates the invalid value within
+// the configuration, as mapping keys and array indices.
+export class CodebraidPreviewConfigError extends CodebraidPreviewError {
+	keyPath: Array<string | number>;
+
+	constructor(message: string, keyPath?: Array<string | number>) {
+		super(message);
+		this.keyPath = keyPath ? keyPath : [];
+	}
+}
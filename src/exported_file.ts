@@ -0,0 +1,110 @@
+// Copyright (c) 2024, Geoffrey M. Poore
+// All rights reserved.
+//
+// Licensed under the BSD 3-Clause License:
+// http://opensource.org/licenses/BSD-3-Clause
+//
+
+
+import * as vscode from 'vscode';
+
+import * as path from 'path';
+
+
+// Exported files with these extensions are opened in a text editor.  Others
+// are opened with the system default application.
+const textFileExtensions = new Set([
+	'.dbk',
+	'.json',
+	'.md',
+	'.org',
+	'.rst',
+	'.tex',
+	'.textile',
+	'.txt',
+]);
+// Exported files with these extensions can be displayed within VS Code
+const previewFileExtensions = new Set([
+	'.html',
+	'.pdf',
+]);
+
+
+export async function showExportedFileNotification(exportFileName: string) {
+	const exportUri = vscode.Uri.file(exportFileName);
+	const fileExtension = path.extname(exportFileName).toLowerCase();
+	const actions: Array<string> = ['Open', 'Reveal in Explorer'];
+	if (previewFileExtensions.has(fileExtension)) {
+		actions.push('Open in preview');
+	}
+	const choice = await vscode.window.showInformationMessage(
+		`Exported "${path.basename(exportFileName)}"`,
+		...actions
+	);
+	switch (choice) {
+		case 'Open': {
+			if (textFileExtensions.has(fileExtension)) {
+				await vscode.window.showTextDocument(exportUri, {viewColumn: vscode.ViewColumn.Beside});
+			} else {
+				await vscode.env.openExternal(exportUri);
+			}
+			break;
+		}
+		case 'Reveal in Explorer': {
+			if (vscode.workspace.getWorkspaceFolder(exportUri)) {
+				await vscode.commands.executeCommand('revealInExplorer', exportUri);
+			} else {
+				await vscode.commands.executeCommand('revealFileInOS', exportUri);
+			}
+			break;
+		}
+		case 'Open in preview': {
+			if (fileExtension === '.html') {
+				await showExportedHtml(exportUri);
+			} else {
+				// PDF display depends on an installed custom editor (PDF
+				// viewer extension)
+				await vscode.commands.executeCommand('vscode.open', exportUri, vscode.ViewColumn.Beside);
+			}
+			break;
+		}
+	}
+}
+
+
+async function showExportedHtml(exportUri: vscode.Uri) {
+	// Display exported HTML in a webview.  Scripts are disabled, since the
+	// HTML is not processed like the preview.  Local resources are limited
+	// to the export directory.
+	let html: string;
+	try {
+		html = new TextDecoder().decode(await vscode.workspace.fs.readFile(exportUri));
+	} catch (error) {
+		vscode.window.showErrorMessage(`Failed to read exported file "${exportUri.fsPath}":  ${error}`);
+		return;
+	}
+	const exportDirUri = vscode.Uri.file(path.dirname(exportUri.fsPath));
+	const panel = vscode.window.createWebviewPanel(
+		'codebraidPreview.exportedHtml',
+		path.basename(exportUri.fsPath),
+		vscode.ViewColumn.Beside,
+		{
+			enableScripts: false,
+			enableFindWidget: true,
+			localResourceRoots: [exportDirUri],
+		}
+	);
+	const cspSource = panel.webview.cspSource;
+	const headTags = [
+		`<meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${cspSource} https: data:; style-src ${cspSource} https: 'unsafe-inline'; font-src ${cspSource} https: data:; media-src ${cspSource} https:;">`,
+		`<base href="${panel.webview.asWebviewUri(exportDirUri)}/">`,
+	].join('\n');
+	const headMatch = html.match(/<head(?:\s[^>]*)?>/i);
+	if (headMatch) {
+		const index = (headMatch.index as number) + headMatch[0].length;
+		html = `${html.slice(0, index)}\n${headTags}\n${html.slice(index)}`;
+	} else {
+		html = `<!DOCTYPE html>\n<html>\n<head>\n${headTags}\n</head>\n<body>\n${html}\n</body>\n</html>\n`;
+	}
+	panel.webview.html = html;
+}
@@ -8,14 +8,22 @@
 
 import * as vscode from 'vscode';
 
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+
 import type { ExtensionState } from './types';
 import { isWindows, homedir } from './constants';
 import { resourceRoots } from './resources';
 import { FileExtension } from './util';
 import { PandocInfo, getPandocInfo } from './pandoc_info';
+import { PandocServer } from './pandoc_server';
 import { PandocBuildConfigCollections } from './pandoc_build_configs';
+import { projectConfigFileName, isProjectConfigFile } from './project_config';
 import { NotebookTextEditor } from './notebook';
 import PreviewPanel from './preview_panel';
+import { exportFolder } from './folder_export';
+import { BuildConfigEditorPanel } from './build_config_editor';
+import { CodebraidSessionsTreeDataProvider } from './codebraid_sessions_view';
 
 
 let context: vscode.ExtensionContext;
@@ -28,6 +36,7 @@ function updatePreviewConfigurations() {
 let extensionState: ExtensionState;
 const oldExtraLocalResourceRoots: Set<string> = new Set();
 let checkPreviewVisibleInterval: NodeJS.Timeout | undefined;
+let buildConfigEditor: BuildConfigEditorPanel | undefined;
 
 
 
@@ -72,6 +81,84 @@ export async function activate(extensionContext: vscode.ExtensionContext) {
 			'codebraidPreview.exportDocument',
 			exportDocument
 		),
+		vscode.commands.registerCommand(
+			'codebraidPreview.exportDocumentWithCodebraid',
+			exportDocumentWithCodebraid
+		),
+		vscode.commands.registerCommand(
+			'codebraidPreview.reExport',
+			reExportDocument
+		),
+		vscode.commands.registerCommand(
+			'codebraidPreview.exportFolder',
+			exportDocumentFolder
+		),
+		vscode.commands.registerCommand(
+			'codebraidPreview.togglePresentationMode',
+			togglePresentationMode
+		),
+		vscode.commands.registerCommand(
+			'codebraidPreview.popOutPresentation',
+			popOutPresentation
+		),
+		vscode.commands.registerCommand(
+			'codebraidPreview.showResolvedBuildConfig',
+			showResolvedBuildConfig
+		),
+		vscode.commands.registerCommand(
+			'codebraidPreview.editBuildConfig',
+			editBuildConfig
+		),
+		vscode.commands.registerCommand(
+			'codebraidPreview.showPandocCommands',
+			showPandocCommands
+		),
+		vscode.commands.registerCommand(
+			'codebraidPreview.revealOutput',
+			revealOutput
+		),
+		vscode.languages.registerCodeActionsProvider(
+			{scheme: 'file'},
+			{provideCodeActions: provideCodebraidCodeActions},
+			{providedCodeActionKinds: [vscode.CodeActionKind.QuickFix]}
+		),
+		vscode.commands.registerCommand(
+			'codebraidPreview.cancelCodebraid',
+			cancelCodebraid
+		),
+		vscode.commands.registerCommand(
+			'codebraidPreview.toggleCodebraidRunOnSave',
+			toggleCodebraidRunOnSave
+		),
+		vscode.commands.registerCommand(
+			'codebraidPreview.runCodebraidSession',
+			runCodebraidSession
+		),
+		vscode.commands.registerCommand(
+			'codebraidPreview.runCodebraidChunk',
+			runCodebraidChunk
+		),
+		vscode.commands.registerCommand(
+			'codebraidPreview.restartCodebraidSession',
+			restartCodebraidSession
+		),
+		vscode.languages.registerCodeLensProvider(
+			{scheme: 'file'},
+			{
+				provideCodeLenses: provideCodebraidCodeLenses,
+				onDidChangeCodeLenses: codebraidCodeLensesEmitter.event,
+			}
+		),
+		codebraidCodeLensesEmitter,
+		vscode.window.createTreeView(
+			'codebraidPreview.sessions',
+			{treeDataProvider: codebraidSessionsTreeDataProvider}
+		),
+		codebraidSessionsTreeDataProvider,
+		vscode.commands.registerCommand(
+			'codebraidPreview.revealCodebraidCollection',
+			revealCodebraidCollection
+		),
 	);
 
 	let openPreviewStatusBarItem = vscode.window.createStatusBarItem(
@@ -84,6 +171,11 @@ export async function activate(extensionContext: vscode.ExtensionContext) {
 		vscode.StatusBarAlignment.Right,
 		13
 	);
+	let codebraidRunOnSaveStatusBarItem = vscode.window.createStatusBarItem(
+		'codebraidPreview.toggleCodebraidRunOnSave',
+		vscode.StatusBarAlignment.Right,
+		12.5
+	);
 	let scrollSyncModeStatusBarItem = vscode.window.createStatusBarItem(
 		'codebraidPreview.setScrollSyncMode',
 		vscode.StatusBarAlignment.Right,
@@ -107,22 +199,39 @@ export async function activate(extensionContext: vscode.ExtensionContext) {
 		context: context,
 		config: config,
 		pandocInfo: pandocInfo,
+		pandocServer: new PandocServer(config, log),
 		pandocBuildConfigCollections: pandocBuildConfigCollections,
 		normalizedExtraLocalResourceRoots: normalizeExtraLocalResourceRoots(config),
 		resourceRootUris: resourceRootUris,
 		log: log,
+		showLog: () => outputChannel.show(true),
 		statusBarItems: {
 			openPreview: openPreviewStatusBarItem,
 			runCodebraid: runCodebraidStatusBarItem,
+			codebraidRunOnSave: codebraidRunOnSaveStatusBarItem,
 			scrollSyncMode: scrollSyncModeStatusBarItem,
 			exportDocument: exportDocumentStatusBarItem,
 		},
 		statusBarConfig: {
 			scrollPreviewWithEditor: undefined,
 			scrollEditorWithPreview: undefined,
-			setCodebraidRunningExecute: () => {runCodebraidStatusBarItem.text = '$(sync~spin) Codebraid';},
-			setCodebraidRunningNoExecute: () => {runCodebraidStatusBarItem.text = '$(loading~spin) Codebraid';},
-			setCodebraidWaiting: () => {runCodebraidStatusBarItem.text = '$(run-all) Codebraid';},
+			// While Codebraid is running, clicking the status bar item
+			// cancels it
+			setCodebraidRunningExecute: () => {
+				runCodebraidStatusBarItem.text = '$(sync~spin) Codebraid';
+				runCodebraidStatusBarItem.tooltip = 'Cancel running Codebraid';
+				runCodebraidStatusBarItem.command = 'codebraidPreview.cancelCodebraid';
+			},
+			setCodebraidRunningNoExecute: () => {
+				runCodebraidStatusBarItem.text = '$(loading~spin) Codebraid';
+				runCodebraidStatusBarItem.tooltip = 'Cancel running Codebraid';
+				runCodebraidStatusBarItem.command = 'codebraidPreview.cancelCodebraid';
+			},
+			setCodebraidWaiting: () => {
+				runCodebraidStatusBarItem.text = '$(run-all) Codebraid';
+				runCodebraidStatusBarItem.tooltip = 'Run all Codebraid sessions';
+				runCodebraidStatusBarItem.command = 'codebraidPreview.runCodebraid';
+			},
 			setDocumentExportRunning: () => {exportDocumentStatusBarItem.text = '$(sync~spin) Pandoc';},
 			setDocumentExportWaiting: () => {exportDocumentStatusBarItem.text = '$(export) Pandoc';},
 		},
@@ -140,6 +249,10 @@ export async function activate(extensionContext: vscode.ExtensionContext) {
 	runCodebraidStatusBarItem.command = 'codebraidPreview.runCodebraid';
 	runCodebraidStatusBarItem.hide();
 
+	codebraidRunOnSaveStatusBarItem.name = 'Codebraid Preview: run Codebraid on save';
+	codebraidRunOnSaveStatusBarItem.command = 'codebraidPreview.toggleCodebraidRunOnSave';
+	codebraidRunOnSaveStatusBarItem.hide();
+
 	scrollSyncModeStatusBarItem.name = 'Codebraid Preview: set scroll sync mode';
 	let scrollState: 0|1|2|3;
 	if (config.scrollPreviewWithEditor && config.scrollEditorWithPreview) {
@@ -173,6 +286,7 @@ export async function activate(extensionContext: vscode.ExtensionContext) {
 			}
 
 			extensionState.config = nextConfig;
+			extensionState.pandocServer.update(nextConfig);
 			const nextResourceRootUris = resourceRoots.map((root) => vscode.Uri.file(context.asAbsolutePath(root)));
 			if (extensionState.config.security.pandocDefaultDataDirIsResourceRoot && extensionState.pandocInfo?.defaultDataDir) {
 				nextResourceRootUris.push(vscode.Uri.file(extensionState.pandocInfo.defaultDataDir));
@@ -198,10 +312,22 @@ export async function activate(extensionContext: vscode.ExtensionContext) {
 					'This will not affect preview panels until they are closed and reopened.',
 				].join(' '));
 			}
+			// Project configuration files depend on workspace folders
+			extensionState.pandocBuildConfigCollections.update(extensionState.config, updatePreviewConfigurations);
 		},
 		null,
 		context.subscriptions
 	);
+	const projectConfigFileWatcher = vscode.workspace.createFileSystemWatcher(`**/${projectConfigFileName}`);
+	context.subscriptions.push(projectConfigFileWatcher);
+	const onDidChangeProjectConfigFile = (uri: vscode.Uri) => {
+		if (isProjectConfigFile(uri)) {
+			extensionState.pandocBuildConfigCollections.update(extensionState.config, updatePreviewConfigurations);
+		}
+	};
+	projectConfigFileWatcher.onDidCreate(onDidChangeProjectConfigFile, null, context.subscriptions);
+	projectConfigFileWatcher.onDidChange(onDidChangeProjectConfigFile, null, context.subscriptions);
+	projectConfigFileWatcher.onDidDelete(onDidChangeProjectConfigFile, null, context.subscriptions);
 	vscode.window.onDidChangeActiveTextEditor(
 		updateStatusBarItems,
 		null,
@@ -460,10 +586,23 @@ function startPreview() {
 		let preview = new PreviewPanel(editor, extensionState, fileExt);
 		context.subscriptions.push(preview);
 		previews.add(preview);
+		updateActiveEditorContext();
 		preview.registerOnDisposeCallback(
 			() => {
 				previews.delete(preview);
 				updateStatusBarItems();
+				codebraidCodeLensesEmitter.fire();
+				codebraidSessionsTreeDataProvider.refresh();
+			}
+		);
+		preview.registerOnDidUpdateCodebraidChunksCallback(
+			() => {
+				codebraidCodeLensesEmitter.fire();
+			}
+		);
+		preview.registerOnDidChangeCodebraidStatusCallback(
+			() => {
+				codebraidSessionsTreeDataProvider.refresh();
 			}
 		);
 	}
@@ -485,18 +624,7 @@ function runCodebraid() {
 	if (previews.size === 0) {
 		startPreview();
 	}
-	let preview: PreviewPanel | undefined;
-	for (let p of previews) {
-		if (p.panel && p.panel.visible) {
-			if (preview) {
-				vscode.window.showErrorMessage(
-					'Cannot run Codebraid with two previews visible.  Close one and try again.'
-				);
-			}
-		}
-		preview = p;
-	}
-	preview?.runCodebraidExecute();
+	getActivePreview('run Codebraid')?.runCodebraidExecute();
 }
 
 
@@ -512,21 +640,324 @@ function exportDocument() {
 	if (previews.size === 0) {
 		startPreview();
 	}
+	const preview = getActivePreview('export document');
+	if (!preview) {
+		return;
+	}
+	preview.export();
+}
+
+function getActivePreview(actionDescription: string) : PreviewPanel | undefined {
+	// Prefer the preview for the active editor.  When the preview itself is
+	// focused, there is no active editor, so use the visible preview.
 	let preview: PreviewPanel | undefined;
-	for (let p of previews) {
-		if (p.panel && p.panel.visible) {
-			if (preview) {
-				vscode.window.showErrorMessage(
-					'Cannot export document with two previews visible.  Close one and try again.'
-				);
+	if (vscode.window.activeTextEditor) {
+		preview = getPreviewForFileName(vscode.window.activeTextEditor.document.fileName);
+	}
+	if (!preview) {
+		for (const p of previews) {
+			if (p.panel && p.panel.visible) {
+				if (preview) {
+					vscode.window.showErrorMessage(
+						`Cannot ${actionDescription} with two previews visible.  Close one and try again.`
+					);
+					return undefined;
+				}
+				preview = p;
 			}
 		}
-		preview = p;
 	}
 	if (!preview) {
+		vscode.window.showErrorMessage(`There is no open preview to ${actionDescription}`);
+	}
+	return preview;
+}
+
+function exportDocumentWithCodebraid() {
+	if (!extensionState.pandocInfo) {
+		showPandocMissingError(true);
 		return;
 	}
-	preview.export();
+	const preview = getActivePreview('export document');
+	if (!preview) {
+		return;
+	}
+	preview.exportWithCodebraid();
+}
+
+function exportDocumentFolder(folderUri?: vscode.Uri) {
+	if (!extensionState.pandocInfo) {
+		showPandocMissingError(true);
+		return;
+	}
+	if (!extensionState.pandocInfo.isMinVersionRecommended) {
+		showPandocVersionMessage(true);
+	}
+	exportFolder(extensionState, folderUri instanceof vscode.Uri ? folderUri : undefined);
+}
+
+function getPresentationPreview() : PreviewPanel | undefined {
+	return getActivePreview('present slides');
+}
+
+function togglePresentationMode() {
+	const preview = getPresentationPreview();
+	if (!preview) {
+		return;
+	}
+	preview.setPresentationMode(!preview.isPresentationMode);
+}
+
+function popOutPresentation() {
+	const preview = getPresentationPreview();
+	if (!preview) {
+		return;
+	}
+	preview.popOutPresentation();
+}
+
+async function showResolvedBuildConfig() {
+	// Show the build settings for a file extension after merging project
+	// configuration files and resolving `extends`.  The file extension of the
+	// active document is listed first.
+	const buildConfigCollections = extensionState.pandocBuildConfigCollections;
+	const keys = Array.from(buildConfigCollections.resolvedSettingsKeys()).sort();
+	if (keys.length === 0) {
+		vscode.window.showErrorMessage('There are no valid build configurations under "codebraid.preview.pandoc.build"');
+		return;
+	}
+	const activeDocument = vscode.window.activeTextEditor?.document;
+	if (activeDocument && activeDocument.uri.scheme === 'file') {
+		const activeCollection = buildConfigCollections.getConfigCollection(new FileExtension(activeDocument.fileName));
+		if (activeCollection) {
+			const activeKey = `*${activeCollection.inputFileExtension}`;
+			keys.splice(keys.indexOf(activeKey), 1);
+			keys.unshift(activeKey);
+		}
+	}
+	const key = await vscode.window.showQuickPick(
+		keys.map((key) => ({label: key, description: buildConfigCollections.getResolvedSettings(key)?.sources.join(', ')})),
+		{title: 'Show resolved build configuration', placeHolder: 'Select file extension'}
+	).then((item) => item?.label);
+	const resolved = key ? buildConfigCollections.getResolvedSettings(key) : undefined;
+	if (!key || !resolved) {
+		return;
+	}
+	const content = [
+		`# Resolved build configuration for ${key}`,
+		`# Sources: ${resolved.sources.join(', ')}`,
+		'# "extends" has been resolved.  Predefined exports are not included.',
+		yaml.dump({build: {[key]: resolved.settings}}, {lineWidth: -1}),
+	].join('\n');
+	const document = await vscode.workspace.openTextDocument({language: 'yaml', content: content});
+	await vscode.window.showTextDocument(document, {preview: true});
+}
+
+function editBuildConfig() {
+	if (buildConfigEditor) {
+		buildConfigEditor.show();
+		return;
+	}
+	buildConfigEditor = new BuildConfigEditorPanel(extensionState);
+	buildConfigEditor.registerOnDisposeCallback(() => {buildConfigEditor = undefined;});
+}
+
+function showPandocCommands() {
+	if (!extensionState.pandocInfo) {
+		showPandocMissingError(true);
+		return;
+	}
+	const preview = getActivePreview('show Pandoc commands');
+	if (!preview) {
+		return;
+	}
+	preview.showPandocCommands();
+}
+
+function reExportDocument() {
+	if (!extensionState.pandocInfo) {
+		showPandocMissingError(true);
+		return;
+	}
+	const preview = getActivePreview('repeat export');
+	if (!preview) {
+		return;
+	}
+	preview.reExport();
+}
+
+
+function cancelCodebraid() {
+	let didCancel = false;
+	for (const preview of previews) {
+		if (preview.cancelCodebraid()) {
+			didCancel = true;
+		}
+	}
+	if (!didCancel) {
+		vscode.window.showInformationMessage('Codebraid is not running');
+	}
+}
+
+
+function toggleCodebraidRunOnSave() {
+	// Prefer the preview shown in the status bar item, which uses Codebraid
+	let preview: PreviewPanel | undefined;
+	for (const p of previews) {
+		if (p.panel && p.panel.visible && (!preview || (p.usingCodebraid && !preview.usingCodebraid))) {
+			preview = p;
+		}
+	}
+	if (!preview) {
+		vscode.window.showErrorMessage('There is no visible preview');
+		return;
+	}
+	preview.toggleCodebraidRunOnSave();
+	updateCodebraidRunOnSaveStatusBarItem();
+	const fileName = path.basename(preview.fileNames[0]);
+	if (preview.isCodebraidRunOnSaveEnabled) {
+		vscode.window.showInformationMessage(`Codebraid will run when "${fileName}" is saved`);
+	} else {
+		vscode.window.showInformationMessage(`Codebraid will no longer run when "${fileName}" is saved`);
+	}
+}
+
+function getPreviewForFileName(fileName: string) : PreviewPanel | undefined {
+	for (const preview of previews) {
+		if (preview.panel && preview.fileNames.indexOf(fileName) !== -1) {
+			return preview;
+		}
+	}
+	return undefined;
+}
+
+function revealOutput(uri: vscode.Uri, line: number) {
+	const preview = getPreviewForFileName(uri.fsPath);
+	if (!preview) {
+		vscode.window.showErrorMessage('There is no open preview for this document');
+		return;
+	}
+	preview.revealSourceLine(uri.fsPath, line);
+}
+
+function provideCodebraidCodeActions(
+	document: vscode.TextDocument,
+	range: vscode.Range | vscode.Selection,
+	context: vscode.CodeActionContext
+) : Array<vscode.CodeAction> {
+	const codeActions: Array<vscode.CodeAction> = [];
+	for (const diagnostic of context.diagnostics) {
+		if (diagnostic.source !== 'Codebraid') {
+			continue;
+		}
+		const codeAction = new vscode.CodeAction('Show Codebraid output in preview', vscode.CodeActionKind.QuickFix);
+		codeAction.diagnostics = [diagnostic];
+		codeAction.command = {
+			title: 'Show Codebraid output in preview',
+			command: 'codebraidPreview.revealOutput',
+			arguments: [document.uri, diagnostic.range.start.line],
+		};
+		codeActions.push(codeAction);
+		// One action is sufficient when a chunk has multiple diagnostics
+		break;
+	}
+	return codeActions;
+}
+
+
+const codebraidCodeLensesEmitter = new vscode.EventEmitter<void>();
+
+function provideCodebraidCodeLenses(document: vscode.TextDocument) : Array<vscode.CodeLens> {
+	// Code lenses are only available when the document is being previewed,
+	// since the preview tracks Codebraid output and chunk locations
+	const preview = getPreviewForFileName(document.fileName);
+	if (!preview) {
+		return [];
+	}
+	const codeLenses: Array<vscode.CodeLens> = [];
+	let lastLine: number | undefined;
+	for (const chunk of preview.getCodebraidChunks(document)) {
+		// Chunks that are not part of a session aren't executed.  For
+		// inline code, there is only one set of lenses per line.
+		if (!chunk.isSession || chunk.startLine === lastLine) {
+			continue;
+		}
+		lastLine = chunk.startLine;
+		const range = new vscode.Range(chunk.startLine, 0, chunk.startLine, 0);
+		codeLenses.push(
+			new vscode.CodeLens(range, {
+				title: 'Run session',
+				command: 'codebraidPreview.runCodebraidSession',
+				arguments: [document.uri, chunk.key],
+			}),
+			new vscode.CodeLens(range, {
+				title: 'Run chunk and dependencies',
+				command: 'codebraidPreview.runCodebraidChunk',
+				arguments: [document.uri, chunk.key, chunk.index],
+			}),
+			new vscode.CodeLens(range, {
+				title: 'Restart session',
+				command: 'codebraidPreview.restartCodebraidSession',
+				arguments: [document.uri, chunk.key],
+			}),
+		);
+	}
+	return codeLenses;
+}
+
+function getCodebraidPreview(uri: vscode.Uri, canInterrupt: boolean = false) : PreviewPanel | undefined {
+	if (!extensionState.pandocInfo) {
+		showPandocMissingError(true);
+		return undefined;
+	}
+	const preview = getPreviewForFileName(uri.fsPath);
+	if (!preview) {
+		vscode.window.showErrorMessage('There is no open preview for this document');
+		return undefined;
+	}
+	if (preview.isCodebraidInProgress && !canInterrupt) {
+		vscode.window.showErrorMessage('Codebraid is already running; try again when it completes');
+		return undefined;
+	}
+	return preview;
+}
+
+function runCodebraidSession(uri: vscode.Uri, key: string) {
+	getCodebraidPreview(uri)?.runCodebraidSession(key);
+}
+
+function runCodebraidChunk(uri: vscode.Uri, key: string, index: number) {
+	getCodebraidPreview(uri)?.runCodebraidChunk(key, index);
+}
+
+function restartCodebraidSession(uri: vscode.Uri, key: string) {
+	getCodebraidPreview(uri, true)?.restartCodebraidSession(key);
+}
+
+
+const codebraidSessionsTreeDataProvider = new CodebraidSessionsTreeDataProvider(() => previews);
+
+async function revealCodebraidCollection(uri: vscode.Uri, line: number) {
+	// Show the first chunk of a code collection in both the editor and the
+	// preview
+	const preview = getPreviewForFileName(uri.fsPath);
+	if (!preview) {
+		vscode.window.showErrorMessage('There is no open preview for this document');
+		return;
+	}
+	let viewColumn: vscode.ViewColumn | undefined;
+	for (const visibleEditor of vscode.window.visibleTextEditors) {
+		if (visibleEditor.document.uri.fsPath === uri.fsPath) {
+			viewColumn = visibleEditor.viewColumn;
+			break;
+		}
+	}
+	const position = new vscode.Position(line, 0);
+	await vscode.window.showTextDocument(
+		uri,
+		{viewColumn: viewColumn, selection: new vscode.Range(position, position)}
+	);
+	preview.revealSourceLine(uri.fsPath, line);
 }
 
 
@@ -604,6 +1035,16 @@ function updateStatusBarItems() {
 		extensionState.statusBarItems.openPreview.hide();
 	}
 	updateWithPreviewStatusBarItems();
+	updateActiveEditorContext();
+}
+
+function updateActiveEditorContext() {
+	// Used to limit keybindings to documents that are being previewed
+	let activeEditorHasPreview = false;
+	if (vscode.window.activeTextEditor) {
+		activeEditorHasPreview = getPreviewForFileName(vscode.window.activeTextEditor.document.fileName) !== undefined;
+	}
+	vscode.commands.executeCommand('setContext', 'codebraidPreview.activeEditorHasPreview', activeEditorHasPreview);
 }
 
 let isShowingWithPreviewStatusBarItems = false;
@@ -630,4 +1071,25 @@ function updateWithPreviewStatusBarItems() {
 		}
 		isShowingWithPreviewStatusBarItems = false;
 	}
+	updateCodebraidRunOnSaveStatusBarItem();
+}
+
+function updateCodebraidRunOnSaveStatusBarItem() {
+	// Shown for a visible preview that uses Codebraid, with the current run
+	// on save state
+	const statusBarItem = extensionState.statusBarItems.codebraidRunOnSave;
+	for (const preview of previews) {
+		if (preview.panel && preview.panel.visible && preview.usingCodebraid) {
+			if (preview.isCodebraidRunOnSaveEnabled) {
+				statusBarItem.text = '$(debug-rerun) Auto-run';
+				statusBarItem.tooltip = 'Codebraid runs when the document is saved (click to disable)';
+			} else {
+				statusBarItem.text = '$(circle-slash) Auto-run';
+				statusBarItem.tooltip = 'Codebraid does not run when the document is saved (click to enable)';
+			}
+			statusBarItem.show();
+			return;
+		}
+	}
+	statusBarItem.hide();
 }
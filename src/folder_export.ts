@@ -0,0 +1,381 @@
+// Copyright (c) 2024, Geoffrey M. Poore
+// All rights reserved.
+//
+// Licensed under the BSD 3-Clause License:
+// http://opensource.org/licenses/BSD-3-Clause
+//
+
+
+import * as vscode from 'vscode';
+
+import * as child_process from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import type { ExtensionState } from './types';
+import type { PandocBuildConfigCollection, PandocExportBuildConfig } from './pandoc_build_configs';
+import { isWindows } from './constants';
+import { isSupportedShellFileName } from './pandoc_util';
+import { builtinToFileExtensionMap } from './pandoc_settings';
+import { hasPdfEngineOption } from './pdf_export';
+import { FileExtension, killProcessTree } from './util';
+
+
+// Record of completed exports, saved in the output directory.  An export is
+// skipped when the hash of its input and build configuration is unchanged
+// and the output file still exists.
+const manifestFileName = '.codebraid_export.json';
+const manifestVersion = 1;
+
+export type FolderExportManifest = {
+	version: number,
+	// Keys are input file paths relative to the exported folder, with `/`
+	// separators
+	exports: {[key: string]: {exportName: string, hash: string, output: string}},
+};
+
+type FolderExportDocument = {
+	fileName: string,
+	relativeFileName: string,
+	buildConfigCollection: PandocBuildConfigCollection,
+};
+
+// Directories that never contain documents for export
+const excludeGlob = '{**/node_modules/**,**/_codebraid/**,**/.*/**}';
+
+
+export async function exportFolder(extension: ExtensionState, folderUri?: vscode.Uri) {
+	// Export all documents in a folder that match `codebraid.preview.pandoc.build`
+	// file extensions, using one export configuration name for all of them.
+	// Output mirrors the folder's directory structure.
+	if (!folderUri) {
+		const defaultUri = vscode.workspace.workspaceFolders?.[0]?.uri;
+		const pickedUris = await vscode.window.showOpenDialog({
+			title: 'Select folder to export',
+			defaultUri: defaultUri,
+			canSelectFiles: false,
+			canSelectFolders: true,
+			canSelectMany: false,
+			openLabel: 'Export Folder',
+		});
+		if (!pickedUris || pickedUris.length === 0) {
+			return;
+		}
+		folderUri = pickedUris[0];
+	}
+	const folder = folderUri.fsPath;
+
+	const outputDirectoryInput = await vscode.window.showInputBox({
+		title: `Export folder "${path.basename(folder)}"`,
+		prompt: 'Output directory (absolute, or relative to the exported folder)',
+		value: '_export',
+		ignoreFocusOut: true,
+		validateInput: (value: string) => {
+			if (value.trim() === '') {
+				return 'Output directory is required';
+			}
+			const resolved = path.resolve(folder, value.trim());
+			if (resolved === folder) {
+				return 'Output directory must differ from the exported folder';
+			}
+			if (!isSupportedShellFileName(resolved)) {
+				return 'Invalid or unsupported directory name';
+			}
+			return undefined;
+		},
+	});
+	if (outputDirectoryInput === undefined) {
+		return;
+	}
+	const outputDirectory = path.resolve(folder, outputDirectoryInput.trim());
+
+	const documents = await findFolderDocuments(extension, folderUri, outputDirectory);
+	if (documents.length === 0) {
+		vscode.window.showErrorMessage([
+			`No documents were found in "${folder}" with file extensions that are defined in`,
+			`"codebraid.preview.pandoc.build"`,
+		].join(' '));
+		return;
+	}
+
+	// Offer each export configuration that is defined for any document
+	const exportNameCounts: Map<string, number> = new Map();
+	for (const document of documents) {
+		for (const exportName of document.buildConfigCollection.export.keys()) {
+			exportNameCounts.set(exportName, (exportNameCounts.get(exportName) || 0) + 1);
+		}
+	}
+	const exportPickItems: Array<vscode.QuickPickItem> = [];
+	for (const [exportName, count] of exportNameCounts) {
+		exportPickItems.push({
+			label: exportName,
+			description: count === documents.length ? undefined : `${count} of ${documents.length} documents`,
+		});
+	}
+	const exportPick = await vscode.window.showQuickPick(exportPickItems, {
+		title: `Export ${documents.length} document${documents.length === 1 ? '' : 's'} from "${path.basename(folder)}"`,
+		placeHolder: 'Select export format',
+		ignoreFocusOut: true,
+	});
+	if (!exportPick) {
+		return;
+	}
+	const exportName = exportPick.label;
+
+	const manifest = await readManifest(outputDirectory);
+	const exported: Array<string> = [];
+	const unchanged: Array<string> = [];
+	const skipped: Array<string> = [];
+	const failed: Array<string> = [];
+	let isCancelled = false;
+	extension.statusBarConfig.setDocumentExportRunning();
+	try {
+		await vscode.window.withProgress(
+			{
+				location: vscode.ProgressLocation.Notification,
+				title: `Exporting "${path.basename(folder)}" (${exportName})`,
+				cancellable: true,
+			},
+			async (progress, token) => {
+				for (const [index, document] of documents.entries()) {
+					if (token.isCancellationRequested) {
+						isCancelled = true;
+						break;
+					}
+					progress.report({
+						message: `${document.relativeFileName} (${index + 1}/${documents.length})`,
+						increment: index === 0 ? 0 : 100 / documents.length,
+					});
+					const buildConfig = document.buildConfigCollection.export.get(exportName);
+					if (!buildConfig) {
+						skipped.push(`${document.relativeFileName} (export "${exportName}" is not defined for *${document.buildConfigCollection.inputFileExtension})`);
+						continue;
+					}
+					const outputFileExtension = buildConfig.writer.builtinBase ? builtinToFileExtensionMap.get(buildConfig.writer.builtinBase) : undefined;
+					if (!outputFileExtension) {
+						skipped.push(`${document.relativeFileName} (cannot determine output file extension for format "${buildConfig.writer.name}")`);
+						continue;
+					}
+					const inputFileExtension = new FileExtension(document.fileName).fullExtension;
+					const relativeOutputFileName = document.relativeFileName.slice(0, -inputFileExtension.length) + outputFileExtension;
+					const outputFileName = path.join(outputDirectory, relativeOutputFileName);
+					if (!isSupportedShellFileName(document.fileName) || !isSupportedShellFileName(outputFileName)) {
+						skipped.push(`${document.relativeFileName} (invalid or unsupported file name)`);
+						continue;
+					}
+
+					let inputBytes: Uint8Array;
+					try {
+						inputBytes = await fs.promises.readFile(document.fileName);
+					} catch (error) {
+						failed.push(`${document.relativeFileName} (${error})`);
+						continue;
+					}
+					const hash = getExportHash(extension, inputBytes, buildConfig, exportName);
+					const manifestKey = document.relativeFileName.split(path.sep).join('/');
+					const previous = manifest.exports[manifestKey];
+					if (previous && previous.hash === hash && previous.output === relativeOutputFileName && fs.existsSync(outputFileName)) {
+						unchanged.push(document.relativeFileName);
+						continue;
+					}
+
+					try {
+						await fs.promises.mkdir(path.dirname(outputFileName), {recursive: true});
+					} catch (error) {
+						failed.push(`${document.relativeFileName} (${error})`);
+						continue;
+					}
+					const result = await exportFolderDocument(extension, document, buildConfig, outputFileName, token);
+					if (result === 'cancelled') {
+						isCancelled = true;
+						break;
+					}
+					if (result) {
+						failed.push(`${document.relativeFileName} (${result})`);
+						delete manifest.exports[manifestKey];
+						continue;
+					}
+					exported.push(document.relativeFileName);
+					manifest.exports[manifestKey] = {exportName: exportName, hash: hash, output: relativeOutputFileName};
+				}
+			}
+		);
+	} finally {
+		extension.statusBarConfig.setDocumentExportWaiting();
+		if (exported.length > 0 || failed.length > 0) {
+			await writeManifest(outputDirectory, manifest);
+		}
+	}
+
+	const summary = [
+		`${isCancelled ? 'Cancelled folder export' : 'Exported folder'} "${path.basename(folder)}" to "${outputDirectory}":`,
+		`${exported.length} exported, ${unchanged.length} unchanged,`,
+		`${skipped.length} skipped, ${failed.length} failed`,
+	].join(' ');
+	extension.log([
+		summary,
+		...skipped.map((message) => `  Skipped ${message}`),
+		...failed.map((message) => `  Failed ${message}`),
+	].join('\n'));
+	let choice: string | undefined;
+	if (failed.length > 0 || skipped.length > 0) {
+		choice = await vscode.window.showErrorMessage(summary, 'Show Log');
+	} else {
+		choice = await vscode.window.showInformationMessage(summary, 'Reveal in Explorer');
+	}
+	if (choice === 'Show Log') {
+		extension.showLog();
+	} else if (choice === 'Reveal in Explorer') {
+		const outputUri = vscode.Uri.file(outputDirectory);
+		if (vscode.workspace.getWorkspaceFolder(outputUri)) {
+			await vscode.commands.executeCommand('revealInExplorer', outputUri);
+		} else {
+			await vscode.commands.executeCommand('revealFileInOS', outputUri);
+		}
+	}
+}
+
+
+async function findFolderDocuments(extension: ExtensionState, folderUri: vscode.Uri, outputDirectory: string) : Promise<Array<FolderExportDocument>> {
+	// Only file extensions defined in settings are used, not the fallback
+	// configurations for previewing files with other extensions
+	const documents: Array<FolderExportDocument> = [];
+	const uris = await vscode.workspace.findFiles(new vscode.RelativePattern(folderUri, '**/*'), excludeGlob);
+	for (const uri of uris) {
+		const fileName = uri.fsPath;
+		if (fileName.startsWith(outputDirectory + path.sep)) {
+			continue;
+		}
+		const buildConfigCollection = extension.pandocBuildConfigCollections.getConfigCollection(new FileExtension(fileName));
+		if (!buildConfigCollection) {
+			continue;
+		}
+		documents.push({
+			fileName: fileName,
+			relativeFileName: path.relative(folderUri.fsPath, fileName),
+			buildConfigCollection: buildConfigCollection,
+		});
+	}
+	documents.sort((a, b) => a.relativeFileName.localeCompare(b.relativeFileName));
+	return documents;
+}
+
+
+function getExportHash(extension: ExtensionState, inputBytes: Uint8Array, buildConfig: PandocExportBuildConfig, exportName: string) : string {
+	// Files included by the document (images, bibliographies, and so on) are
+	// not tracked
+	const hash = crypto.createHash('sha256');
+	for (const value of [
+		extension.pandocInfo?.versionString || '',
+		exportName,
+		buildConfig.reader.name,
+		buildConfig.writer.name,
+		buildConfig.options.join(' '),
+		extension.config.export.pdfEngine || '',
+	]) {
+		hash.update(value);
+		hash.update('\0');
+	}
+	hash.update(buildConfig.defaultsAsBytes);
+	hash.update(inputBytes);
+	return hash.digest('base64url');
+}
+
+
+export async function readManifest(outputDirectory: string) : Promise<FolderExportManifest> {
+	try {
+		const data = JSON.parse(await fs.promises.readFile(path.join(outputDirectory, manifestFileName), 'utf8'));
+		if (data?.version === manifestVersion && typeof(data.exports) === 'object' && data.exports !== null) {
+			return data;
+		}
+	} catch {
+	}
+	return {version: manifestVersion, exports: {}};
+}
+
+export async function writeManifest(outputDirectory: string, manifest: FolderExportManifest) {
+	try {
+		await fs.promises.mkdir(outputDirectory, {recursive: true});
+		await fs.promises.writeFile(path.join(outputDirectory, manifestFileName), JSON.stringify(manifest, null, 2), 'utf8');
+	} catch (error) {
+		vscode.window.showErrorMessage(`Failed to save folder export record in "${outputDirectory}":  ${error}`);
+	}
+}
+
+
+function exportFolderDocument(
+	extension: ExtensionState,
+	document: FolderExportDocument,
+	buildConfig: PandocExportBuildConfig,
+	outputFileName: string,
+	cancellationToken: vscode.CancellationToken
+) : Promise<string | undefined | 'cancelled'> {
+	// Export a single document by passing the file to Pandoc.  Unlike export
+	// from the preview, there is no Codebraid output and no document defaults
+	// file.  Returns an error message on failure.
+	const executable: string = extension.pandocInfo?.executable || 'pandoc';
+	const args: Array<string> = [];
+	if (buildConfig.defaultsFileName) {
+		// This needs quoting, since it involves an absolute path
+		args.push('--defaults', `"${buildConfig.defaultsFileName}"`);
+	}
+	args.push(...buildConfig.options);
+	args.push('--standalone');
+	// Reader and writer don't need quoting, since they are either builtin or
+	// are custom from `settings.json` (and thus require any quoting by the
+	// user)
+	args.push('--from', buildConfig.reader.asArgNoWrapper);
+	args.push('--to', buildConfig.writer.asArg);
+	const configPdfEngine: string = extension.config.export.pdfEngine;
+	if (buildConfig.writer.builtinBase === 'pdf' && configPdfEngine && !hasPdfEngineOption(buildConfig.options) && buildConfig.defaults['pdf-engine'] === undefined) {
+		args.push(`--pdf-engine=${configPdfEngine}`);
+	}
+	args.push('--output', `"${outputFileName}"`);
+	args.push(`"${document.fileName}"`);
+
+	return new Promise((resolve) => {
+		const startTime = Date.now();
+		let isCancelled = false;
+		const buildProcess = child_process.execFile(
+			executable,
+			args,
+			{
+				cwd: path.dirname(document.fileName),
+				shell: true,
+				// Process group allows killing the shell plus Pandoc
+				detached: !isWindows,
+				env: {...process.env, ...extension.pandocInfo?.extraEnv},
+			} as child_process.ExecFileOptions,
+			(error, stdout, stderr) => {
+				cancellationListener.dispose();
+				let status: string;
+				if (isCancelled) {
+					status = 'cancelled';
+				} else if (error) {
+					status = `failed (${error.code !== undefined ? `exit code ${error.code}` : error.message})`;
+				} else {
+					status = 'succeeded';
+				}
+				extension.log([
+					`Pandoc export to "${outputFileName}" ${status}`,
+					`  Command: ${executable} ${args.join(' ')}`,
+					`  Time: ${((Date.now() - startTime) / 1000).toFixed(1)} s`,
+					stderr ? `  stderr:\n${String(stderr).trimEnd()}` : '  stderr: (none)',
+				].join('\n'));
+				if (isCancelled) {
+					resolve('cancelled');
+				} else if (error) {
+					const stderrLines = String(stderr).split(/\r?\n/).filter((line) => line.trim() !== '');
+					resolve(stderrLines.length > 0 ? (stderrLines.at(-1) as string).trim() : error.message.split('\n')[0]);
+				} else {
+					resolve(undefined);
+				}
+			}
+		);
+		const cancellationListener = cancellationToken.onCancellationRequested(() => {
+			isCancelled = true;
+			killProcessTree(buildProcess);
+		});
+	});
+}
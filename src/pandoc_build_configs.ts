@@ -23,11 +23,13 @@ import * as crypto from 'crypto';
 import * as path from 'path';
 import * as yaml from 'js-yaml';
 
-import CodebraidPreviewError from './err';
+import CodebraidPreviewError, { CodebraidPreviewConfigError } from './err';
 import { isWindows, homedir } from './constants';
 import { FileExtension } from './util';
 import { PandocReader, PandocWriter, fallbackHtmlWriter } from './pandoc_util';
 import { fallbackFileExtensionToReaderMap } from './pandoc_settings';
+import { ProjectConfigFile, buildKeyRegex, readProjectConfigFiles } from './project_config';
+import type { ConfigKeyPath } from './project_config';
 
 
 
@@ -44,20 +46,69 @@ type ConfigSettings = {
     reader: string,
     preview: {[key: string]: BuildSettings},
     export: {[key: string]: BuildSettings},
+    exportProfiles?: {[key: string]: {exports: Array<string>, parallel?: boolean, outputDirectory?: string}},
+    exportOnSave?: Array<{export: string, output: string}>,
 };
 
+function isConfigMapping(value: any) : boolean {
+    return typeof(value) === 'object' && value !== null && !Array.isArray(value);
+}
+function mergeProjectConfigSettings(settings: any, projectSettings: any) : any {
+    // Project settings for a file extension are merged over settings from
+    // `settings.json`.  Previews, exports, and export profiles are merged by
+    // name, and other values are replaced.
+    if (!isConfigMapping(settings) || !isConfigMapping(projectSettings)) {
+        return projectSettings;
+    }
+    const merged = {...settings, ...projectSettings};
+    for (const key of ['preview', 'export', 'exportProfiles']) {
+        if (isConfigMapping(settings[key]) && isConfigMapping(projectSettings[key])) {
+            merged[key] = {...settings[key], ...projectSettings[key]};
+        }
+    }
+    return merged;
+}
+export function mergeBuildSettingsLayer(build: {[key: string]: any}, layerBuild: any, isProjectConfig: boolean) : {[key: string]: any} {
+    // Merge a layer of build settings over others.  Settings layers replace
+    // file extensions (VS Code merges object settings this way), while
+    // project configuration files are merged over them.
+    const merged = {...build};
+    if (!isConfigMapping(layerBuild)) {
+        return merged;
+    }
+    for (const [key, value] of Object.entries(layerBuild)) {
+        merged[key] = isProjectConfig ? mergeProjectConfigSettings(merged[key], value) : value;
+    }
+    return merged;
+}
+function getConfigKeyPathDepth(settings: any, keyPath: Array<string | number>) : number {
+    // Number of leading keys in the key path that exist in the settings
+    let value = settings;
+    for (const [index, key] of keyPath.entries()) {
+        if (typeof(value) !== 'object' || value === null || !Object.hasOwn(value, key)) {
+            return index;
+        }
+        value = value[key];
+    }
+    return keyPath.length;
+}
+export function hasConfigKeyPath(settings: any, keyPath: Array<string | number>) : boolean {
+    return getConfigKeyPathDepth(settings, keyPath) === keyPath.length;
+}
+
 
 type PandocOptions = Array<string>;
 // This is a copy of `package.json: codebraid.preview.pandoc.build` regex for
 // options, with capture groups added.
-const optionRegex = new RegExp("^((?!(?:-f|--from|-r|--read|-t|--to|-w|--write|-o|--output)(?:[ =]|$))(?:-[a-zA-Z]|--[a-z]+(?:-[a-z]+)*))(?:([ =])((?:(?<![\\\\^`])\"[^\"]+(?<![\\\\^`])\"(?!\")|(?<![\\\\^`])'[^']+(?<![\\\\^`])'(?!')|[^ \t\"';&|]+(?=[\"']|$))+))?$");
+export const optionRegex = new RegExp("^((?!(?:-f|--from|-r|--read|-t|--to|-w|--write|-o|--output)(?:[ =]|$))(?:-[a-zA-Z]|--[a-z]+(?:-[a-z]+)*))(?:([ =])((?:(?<![\\\\^`])\"[^\"]+(?<![\\\\^`])\"(?!\")|(?<![\\\\^`])'[^']+(?<![\\\\^`])'(?!')|[^ \t\"';&|]+(?=[\"']|$))+))?$");
 function normalizeOptions(options: Array<string>, writer: PandocWriter) : PandocOptions {
     const normalizedOptions: PandocOptions = [];
-    for (const option of options) {
+    for (const [index, option] of options.entries()) {
         const optionMatch = option.match(optionRegex);
         if (!optionMatch) {
-            throw new CodebraidPreviewError(
-                `Writer "${writer}" has invalid options; check for unsupported reader/writer/output settings, and check quoting/escaping for shell`
+            throw new CodebraidPreviewConfigError(
+                `Writer "${writer}" has invalid option "${option}"; check for unsupported reader/writer/output settings, and check quoting/escaping for shell`,
+                ['options', index]
             );
         }
         if (isWindows && optionMatch[3] && (optionMatch[3].startsWith('~/') || optionMatch[3].startsWith('~\\'))) {
@@ -73,6 +124,22 @@ function normalizeOptions(options: Array<string>, writer: PandocWriter) : Pandoc
 }
 
 
+function withConfigKeyPath<T>(keyPath: ConfigKeyPath, create: () => T) : T {
+    // Locate errors from processing a nested part of the settings, so that
+    // key paths in errors are relative to the settings for a file extension
+    try {
+        return create();
+    } catch (error) {
+        if (error instanceof CodebraidPreviewConfigError) {
+            error.keyPath.unshift(...keyPath);
+        } else if (error instanceof CodebraidPreviewError) {
+            throw new CodebraidPreviewConfigError(error.message, [...keyPath]);
+        }
+        throw error;
+    }
+}
+
+
 class PandocBuildConfig {
     inputFileExtension: string;
     reader: PandocReader;
@@ -93,12 +160,12 @@ class PandocBuildConfig {
         this.isPredefined = isPredefined;
         let maybeDefaults = settings.defaults;
         if (typeof(maybeDefaults) !== 'object' || maybeDefaults === null || Array.isArray(maybeDefaults)) {
-            throw new CodebraidPreviewError(`Writer "${writer}" has missing or invalid value for "defaults"`);
+            throw new CodebraidPreviewConfigError(`Writer "${writer}" has missing or invalid value for "defaults"`, ['defaults']);
         }
         this.defaults = maybeDefaults;
         let maybeFileScope = this.defaults['file-scope'];
         if (typeof(maybeFileScope) !== 'boolean' && maybeFileScope !== undefined) {
-            throw new CodebraidPreviewError(`Writer "${writer}" has invalid value in "defaults" for "file-scope"`);
+            throw new CodebraidPreviewConfigError(`Writer "${writer}" has invalid value in "defaults" for "file-scope"`, ['defaults', 'file-scope']);
         }
         this.defaultsFileScope = maybeFileScope;
         if (Object.keys(this.defaults).length === 0) {
@@ -116,11 +183,11 @@ class PandocBuildConfig {
         this.defaultsAsBytes = Buffer.from(`# Reader: ${reader}\n# Writer: ${writer}\n${yaml.dump(this.defaults)}`, 'utf8');
         let maybeOptions = settings.options;
         if (!Array.isArray(maybeOptions)) {
-            throw new CodebraidPreviewError(`Writer "${writer}" has missing or invalid value for "options"`);
+            throw new CodebraidPreviewConfigError(`Writer "${writer}" has missing or invalid value for "options"`, ['options']);
         }
-        for (const opt of maybeOptions) {
+        for (const [index, opt] of maybeOptions.entries()) {
             if (typeof(opt) !== 'string') {
-                throw new CodebraidPreviewError(`Writer "${writer}" has invalid non-string value in "options"`);
+                throw new CodebraidPreviewConfigError(`Writer "${writer}" has invalid non-string value in "options"`, ['options', index]);
             }
         }
         this.options = normalizeOptions(maybeOptions, this.writer);
@@ -132,6 +199,121 @@ export class PandocPreviewBuildConfig extends PandocBuildConfig {
 export class PandocExportBuildConfig extends PandocBuildConfig {
 }
 
+// A named group of export build configs that are exported together, to
+// output file names determined by the document file name and the writers
+export class PandocExportProfile {
+    name: string;
+    exports: Array<string>;
+    parallel: boolean;
+    // Relative to the document directory
+    outputDirectory: string | undefined;
+
+    constructor(name: string, settings: any, exportBuildConfigs: Map<string, PandocExportBuildConfig>) {
+        this.name = name;
+        let maybeExports = settings.exports;
+        if (!Array.isArray(maybeExports) || maybeExports.length === 0) {
+            throw new CodebraidPreviewConfigError(`Export profile "${name}" has missing or invalid value for "exports"`, ['exports']);
+        }
+        for (const [index, exportName] of maybeExports.entries()) {
+            if (typeof(exportName) !== 'string') {
+                throw new CodebraidPreviewConfigError(`Export profile "${name}" has invalid non-string value in "exports"`, ['exports', index]);
+            }
+            if (!exportBuildConfigs.has(exportName)) {
+                throw new CodebraidPreviewConfigError(`Export profile "${name}" has unknown export "${exportName}" in "exports"`, ['exports', index]);
+            }
+        }
+        this.exports = maybeExports;
+        let maybeParallel = settings.parallel;
+        if (typeof(maybeParallel) !== 'boolean' && maybeParallel !== undefined) {
+            throw new CodebraidPreviewConfigError(`Export profile "${name}" has invalid value for "parallel"`, ['parallel']);
+        }
+        this.parallel = maybeParallel || false;
+        let maybeOutputDirectory = settings.outputDirectory;
+        if (typeof(maybeOutputDirectory) !== 'string' && maybeOutputDirectory !== undefined) {
+            throw new CodebraidPreviewConfigError(`Export profile "${name}" has invalid value for "outputDirectory"`, ['outputDirectory']);
+        }
+        this.outputDirectory = maybeOutputDirectory;
+    }
+};
+
+// Placeholders in `exportOnSave` output paths.  These follow the names of VS
+// Code's predefined variables.
+const exportOutputPlaceholderRegex = /\$\{([^}]*)\}/g;
+const exportOutputPlaceholders = new Set([
+    'file',
+    'fileBasename',
+    'fileBasenameNoExtension',
+    'fileDirname',
+    'fileExtname',
+    'workspaceFolder',
+]);
+
+// An export that runs whenever the document is saved
+export class PandocExportOnSave {
+    exportName: string;
+    output: string;
+
+    constructor(index: number, settings: any, exportBuildConfigs: Map<string, PandocExportBuildConfig>) {
+        let maybeExportName = settings.export;
+        if (typeof(maybeExportName) !== 'string') {
+            throw new CodebraidPreviewConfigError(`Invalid value under "exportOnSave", ${index}, "export"`, ['export']);
+        }
+        if (!exportBuildConfigs.has(maybeExportName)) {
+            throw new CodebraidPreviewConfigError(`Unknown export "${maybeExportName}" under "exportOnSave", ${index}`, ['export']);
+        }
+        this.exportName = maybeExportName;
+        let maybeOutput = settings.output;
+        if (typeof(maybeOutput) !== 'string' || maybeOutput.trim() === '') {
+            throw new CodebraidPreviewConfigError(`Missing or invalid value under "exportOnSave", ${index}, "output"`, ['output']);
+        }
+        for (const match of maybeOutput.matchAll(exportOutputPlaceholderRegex)) {
+            if (!exportOutputPlaceholders.has(match[1])) {
+                throw new CodebraidPreviewConfigError(`Unknown placeholder "${match[0]}" under "exportOnSave", ${index}, "output"`, ['output']);
+            }
+        }
+        this.output = maybeOutput;
+    }
+
+    getExportFileName(documentFileName: string) : string {
+        // Expand placeholders for a document.  Relative paths are relative
+        // to the document directory.
+        const fileExtname = path.extname(documentFileName);
+        let workspaceFolder: string | undefined;
+        const expanded = this.output.replaceAll(exportOutputPlaceholderRegex, (match: string, name: string) => {
+            switch (name) {
+                case 'file': {
+                    return documentFileName;
+                }
+                case 'fileBasename': {
+                    return path.basename(documentFileName);
+                }
+                case 'fileBasenameNoExtension': {
+                    return path.basename(documentFileName, fileExtname);
+                }
+                case 'fileDirname': {
+                    return path.dirname(documentFileName);
+                }
+                case 'fileExtname': {
+                    return fileExtname;
+                }
+                case 'workspaceFolder': {
+                    if (workspaceFolder === undefined) {
+                        workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(documentFileName))?.uri.fsPath;
+                        if (workspaceFolder === undefined) {
+                            throw new CodebraidPreviewError(`Cannot expand "${match}" for a document that is not in a workspace folder`);
+                        }
+                    }
+                    return workspaceFolder;
+                }
+                default: {
+                    return match;
+                }
+            }
+        });
+        return path.resolve(path.dirname(documentFileName), expanded);
+    }
+};
+
 const predefinedExportBuildConfigWriters: Map<string, string> = new Map([
     ['HTML', 'html'],
     ['Jupyter Notebook', 'ipynb'],
@@ -152,38 +334,188 @@ const predefinedExportBuildConfigWriters: Map<string, string> = new Map([
     ['Word', 'docx'],
 ]);
 
+// `extends` references build configurations to inherit from:  `<name>` (in
+// the same `preview` or `export`), `<section>/<name>`, or
+// `*.<ext>/<section>/<name>`, where `<section>` is `preview` or `export`.
+const extendsFileExtensionRegex = /^(\*(?:\.[0-9a-z_]+(?:[+-][0-9a-z_]+)*)?\.[0-9a-z_]+)\/((?:preview|export)\/.+)$/;
+const extendsSectionRegex = /^(preview|export)\/(.+)$/;
+type ConfigSection = 'preview' | 'export';
+
+function mergeExtendedDefaults(baseDefaults: {[key: string]: any}, defaults: {[key: string]: any}, isTopLevel: boolean) : {[key: string]: any} {
+    const merged = {...baseDefaults};
+    for (const [key, value] of Object.entries(defaults)) {
+        if (isTopLevel && key === 'filters' && Array.isArray(merged[key]) && Array.isArray(value)) {
+            merged[key] = [...merged[key], ...value];
+        } else if (isConfigMapping(merged[key]) && isConfigMapping(value)) {
+            merged[key] = mergeExtendedDefaults(merged[key], value, false);
+        } else {
+            merged[key] = value;
+        }
+    }
+    return merged;
+}
+function mergeExtendedBuildSettings(baseSettings: any, settings: any) : any {
+    // `defaults` are deep-merged, except that `filters` are concatenated.
+    // `options` are concatenated.  Other values are replaced.
+    const merged = {...baseSettings, ...settings};
+    if (isConfigMapping(baseSettings.defaults) && isConfigMapping(settings.defaults)) {
+        merged.defaults = mergeExtendedDefaults(baseSettings.defaults, settings.defaults, true);
+    }
+    if (Array.isArray(baseSettings.options) && Array.isArray(settings.options)) {
+        merged.options = [...baseSettings.options, ...settings.options];
+    }
+    return merged;
+}
+
+class BuildSettingsExtendsResolver {
+    private buildSettings: Map<string, any>;
+    private resolvedBuildSettings: Map<string, any>;
+    // References currently being resolved, for detecting cycles
+    private activeReferences: Array<string>;
+
+    constructor(buildSettings: Map<string, any>) {
+        this.buildSettings = buildSettings;
+        this.resolvedBuildSettings = new Map();
+        this.activeReferences = [];
+    }
+
+    resolveFileExtensionSettings(key: string) : any {
+        // Settings for a file extension (`*.<ext>`), with `extends` resolved
+        // for all previews and exports.  Errors have key paths relative to
+        // the settings for the file extension.
+        const settings = this.buildSettings.get(key);
+        if (!isConfigMapping(settings)) {
+            return settings;
+        }
+        const resolvedSettings = {...settings};
+        for (const section of ['preview', 'export'] as Array<ConfigSection>) {
+            if (!isConfigMapping(settings[section])) {
+                continue;
+            }
+            resolvedSettings[section] = {};
+            for (const name of Object.keys(settings[section])) {
+                resolvedSettings[section][name] = this.resolveBuildSettings(key, section, name);
+            }
+        }
+        return resolvedSettings;
+    }
+
+    private getBuildSettings(key: string, section: ConfigSection, name: string) : any {
+        const settings = this.buildSettings.get(key);
+        if (!isConfigMapping(settings) || !isConfigMapping(settings[section]) || !Object.hasOwn(settings[section], name)) {
+            return undefined;
+        }
+        return settings[section][name];
+    }
+
+    private resolveBuildSettings(key: string, section: ConfigSection, name: string, errorKeyPath?: ConfigKeyPath) : any {
+        // When resolving a build configuration that is inherited from,
+        // errors are located at the `extends` that references it
+        const reference = `${key}/${section}/${name}`;
+        const resolvedSettings = this.resolvedBuildSettings.get(reference);
+        if (resolvedSettings !== undefined) {
+            return resolvedSettings;
+        }
+        const settings = this.getBuildSettings(key, section, name);
+        if (!isConfigMapping(settings) || settings.extends === undefined) {
+            return settings;
+        }
+        const extendsKeyPath: ConfigKeyPath = errorKeyPath ? errorKeyPath : [section, name, 'extends'];
+        if (this.activeReferences.indexOf(reference) !== -1) {
+            const cycle = [...this.activeReferences.slice(this.activeReferences.indexOf(reference)), reference];
+            throw new CodebraidPreviewConfigError(`Circular "extends":  ${cycle.map((ref) => `"${ref}"`).join(' -> ')}`, extendsKeyPath);
+        }
+        let extendsReferences: Array<string>;
+        if (typeof(settings.extends) === 'string') {
+            extendsReferences = [settings.extends];
+        } else if (Array.isArray(settings.extends) && settings.extends.every((ref: any) => typeof(ref) === 'string')) {
+            extendsReferences = settings.extends;
+        } else {
+            throw new CodebraidPreviewConfigError(`Invalid value under "${section}", "${name}", "extends"`, extendsKeyPath);
+        }
+
+        this.activeReferences.push(reference);
+        let baseSettings: any;
+        try {
+            for (const [index, extendsReference] of extendsReferences.entries()) {
+                const referenceKeyPath = errorKeyPath ? errorKeyPath : typeof(settings.extends) === 'string' ? extendsKeyPath : [...extendsKeyPath, index];
+                let referenceKey: string = key;
+                let referenceSection: ConfigSection = section;
+                let referenceName: string = extendsReference;
+                const fileExtensionMatch = extendsReference.match(extendsFileExtensionRegex);
+                if (fileExtensionMatch) {
+                    referenceKey = fileExtensionMatch[1];
+                    referenceName = fileExtensionMatch[2];
+                }
+                const sectionMatch = referenceName.match(extendsSectionRegex);
+                if (sectionMatch) {
+                    referenceSection = sectionMatch[1] as ConfigSection;
+                    referenceName = sectionMatch[2];
+                }
+                let referenceSettings: any;
+                if (this.getBuildSettings(referenceKey, referenceSection, referenceName) !== undefined) {
+                    referenceSettings = this.resolveBuildSettings(referenceKey, referenceSection, referenceName, referenceKeyPath);
+                } else if (referenceSection === 'export' && predefinedExportBuildConfigWriters.has(referenceName)) {
+                    referenceSettings = {writer: predefinedExportBuildConfigWriters.get(referenceName), ...getFallbackBuildSettings()};
+                } else {
+                    throw new CodebraidPreviewConfigError(`Unknown build configuration "${extendsReference}" in "extends"`, referenceKeyPath);
+                }
+                if (!isConfigMapping(referenceSettings)) {
+                    throw new CodebraidPreviewConfigError(`Invalid build configuration "${extendsReference}" in "extends"`, referenceKeyPath);
+                }
+                // Without an explicit writer, the name is the writer, unless
+                // a writer has already been inherited
+                const inheritedSettings = {...referenceSettings};
+                if (inheritedSettings.writer === undefined && baseSettings?.writer === undefined) {
+                    inheritedSettings.writer = referenceName;
+                }
+                baseSettings = baseSettings === undefined ? inheritedSettings : mergeExtendedBuildSettings(baseSettings, inheritedSettings);
+            }
+        } finally {
+            this.activeReferences.pop();
+        }
+        const mergedSettings = mergeExtendedBuildSettings(baseSettings, settings);
+        delete mergedSettings.extends;
+        this.resolvedBuildSettings.set(reference, mergedSettings);
+        return mergedSettings;
+    }
+}
+
 export class PandocBuildConfigCollection {
     inputFileExtension: string;  // `.<ext>` or `.<output_format>.<ext>`
     reader: PandocReader;
     preview: Map<string, PandocPreviewBuildConfig>;
     export: Map<string, PandocExportBuildConfig>;
+    exportProfiles: Map<string, PandocExportProfile>;
+    exportOnSave: Array<PandocExportOnSave>;
 
     constructor(inputFileExtension: string, settings: any, context: vscode.ExtensionContext, config: vscode.WorkspaceConfiguration) {
         this.inputFileExtension = inputFileExtension;
         let maybeReader = settings.reader;
         if (typeof(maybeReader) !== 'string') {
-            throw new CodebraidPreviewError('Missing or invalid value for "reader"');
+            throw new CodebraidPreviewConfigError('Missing or invalid value for "reader"', ['reader']);
         }
-        this.reader = new PandocReader(maybeReader, context, config);
+        this.reader = withConfigKeyPath(['reader'], () => new PandocReader(maybeReader, context, config));
         let maybePreview = settings.preview;
         if (typeof(maybePreview) !== 'object' || maybePreview === null || Array.isArray(maybePreview)) {
-            throw new CodebraidPreviewError('Missing or invalid value for "preview"');
+            throw new CodebraidPreviewConfigError('Missing or invalid value for "preview"', ['preview']);
         }
         this.preview = new Map();
         for (const [key, value] of Object.entries(maybePreview)) {
             if (typeof(value) !== 'object' || value === null || Array.isArray(value)) {
-                throw new CodebraidPreviewError(`Invalid value under "preview", "${key}"`);
+                throw new CodebraidPreviewConfigError(`Invalid value under "preview", "${key}"`, ['preview', key]);
             }
             let writer: PandocWriter;
             if ('writer' in value) {
                 if (typeof(value.writer) !== 'string') {
-                    throw new CodebraidPreviewError(`Invalid value under "preview", "${key}", "writer"`);
+                    throw new CodebraidPreviewConfigError(`Invalid value under "preview", "${key}", "writer"`, ['preview', key, 'writer']);
                 }
-                writer = new PandocWriter(value.writer, key);
+                const writerFormat: string = value.writer;
+                writer = withConfigKeyPath(['preview', key, 'writer'], () => new PandocWriter(writerFormat, key));
             } else {
-                writer = new PandocWriter(key);
+                writer = withConfigKeyPath(['preview', key], () => new PandocWriter(key));
             }
-            const buildConfig = new PandocPreviewBuildConfig(inputFileExtension, this.reader, writer, value);
+            const buildConfig = withConfigKeyPath(['preview', key], () => new PandocPreviewBuildConfig(inputFileExtension, this.reader, writer, value));
             this.preview.set(key, buildConfig);
         }
         // Ensure that default preview settings are defined
@@ -193,23 +525,24 @@ export class PandocBuildConfigCollection {
         }
         let maybeExport = settings.export;
         if (typeof(maybeExport) !== 'object' || maybeExport === null || Array.isArray(maybeExport)) {
-            throw new CodebraidPreviewError('Missing or invalid value for "export"');
+            throw new CodebraidPreviewConfigError('Missing or invalid value for "export"', ['export']);
         }
         this.export = new Map();
         for (const [key, value] of Object.entries(maybeExport)) {
             if (typeof(value) !== 'object' || value === null || Array.isArray(value)) {
-                throw new CodebraidPreviewError(`Invalid value under "export", "${key}"`);
+                throw new CodebraidPreviewConfigError(`Invalid value under "export", "${key}"`, ['export', key]);
             }
             let writer: PandocWriter;
             if ('writer' in value) {
                 if (typeof(value.writer) !== 'string') {
-                    throw new CodebraidPreviewError(`Invalid value under "export", "${key}", "writer"`);
+                    throw new CodebraidPreviewConfigError(`Invalid value under "export", "${key}", "writer"`, ['export', key, 'writer']);
                 }
-                writer = new PandocWriter(value.writer, key);
+                const writerFormat: string = value.writer;
+                writer = withConfigKeyPath(['export', key, 'writer'], () => new PandocWriter(writerFormat, key));
             } else {
-                writer = new PandocWriter(key);
+                writer = withConfigKeyPath(['export', key], () => new PandocWriter(key));
             }
-            const buildConfig = new PandocExportBuildConfig(inputFileExtension, this.reader, writer, value);
+            const buildConfig = withConfigKeyPath(['export', key], () => new PandocExportBuildConfig(inputFileExtension, this.reader, writer, value));
             this.export.set(key, buildConfig);
         }
         for (let [name, writerString] of predefinedExportBuildConfigWriters) {
@@ -220,10 +553,116 @@ export class PandocBuildConfigCollection {
             const buildConfig = new PandocPreviewBuildConfig(inputFileExtension, this.reader, writer, getFallbackBuildSettings(), true);
             this.export.set(name, buildConfig);
         }
+        let maybeExportProfiles = settings.exportProfiles;
+        if (maybeExportProfiles === undefined) {
+            maybeExportProfiles = {};
+        } else if (typeof(maybeExportProfiles) !== 'object' || maybeExportProfiles === null || Array.isArray(maybeExportProfiles)) {
+            throw new CodebraidPreviewConfigError('Invalid value for "exportProfiles"', ['exportProfiles']);
+        }
+        this.exportProfiles = new Map();
+        for (const [key, value] of Object.entries(maybeExportProfiles)) {
+            if (typeof(value) !== 'object' || value === null || Array.isArray(value)) {
+                throw new CodebraidPreviewConfigError(`Invalid value under "exportProfiles", "${key}"`, ['exportProfiles', key]);
+            }
+            this.exportProfiles.set(key, withConfigKeyPath(['exportProfiles', key], () => new PandocExportProfile(key, value, this.export)));
+        }
+        let maybeExportOnSave = settings.exportOnSave;
+        if (maybeExportOnSave === undefined) {
+            maybeExportOnSave = [];
+        } else if (!Array.isArray(maybeExportOnSave)) {
+            throw new CodebraidPreviewConfigError('Invalid value for "exportOnSave"', ['exportOnSave']);
+        }
+        this.exportOnSave = [];
+        for (const [index, value] of maybeExportOnSave.entries()) {
+            if (typeof(value) !== 'object' || value === null || Array.isArray(value)) {
+                throw new CodebraidPreviewConfigError(`Invalid value under "exportOnSave", ${index}`, ['exportOnSave', index]);
+            }
+            this.exportOnSave.push(withConfigKeyPath(['exportOnSave', index], () => new PandocExportOnSave(index, value, this.export)));
+        }
     }
 };
 
 
+export type BuildSettingsError = {
+    // Starts with the file extension key (`*.<ext>`)
+    keyPath: ConfigKeyPath,
+    message: string,
+    // Whether the error originates in settings from another source rather
+    // than in the settings being validated
+    isFromOtherSettings?: boolean,
+};
+export function validateBuildSettings(
+    build: any,
+    otherBuild: {[key: string]: any},
+    isProjectConfig: boolean,
+    context: vscode.ExtensionContext,
+    config: vscode.WorkspaceConfiguration
+) : Array<BuildSettingsError> {
+    // Validate settings with the schema of `codebraid.preview.pandoc.build`,
+    // without using them.  All invalid options are reported individually;
+    // otherwise, only the first error for each file extension is reported.
+    //
+    // `otherBuild` is the merged settings from all other settings layers and
+    // project configuration files.  `build` is merged over it, so that
+    // `extends` can refer to build configurations defined elsewhere.  Errors
+    // that don't originate in `build` are reported under the file
+    // extension.
+    if (!isConfigMapping(build)) {
+        return [{keyPath: [], message: 'Build configuration must be a mapping of file extensions to build settings'}];
+    }
+    const errors: Array<BuildSettingsError> = [];
+    const mergedBuild = mergeBuildSettingsLayer(otherBuild, build, isProjectConfig);
+    const extendsResolver = new BuildSettingsExtendsResolver(new Map(Object.entries(mergedBuild)));
+    for (const [key, settings] of Object.entries(build)) {
+        if (!buildKeyRegex.test(key)) {
+            errors.push({keyPath: [key], message: `Invalid file extension "${key}"; this must have a form like "*.md"`});
+            continue;
+        }
+        let hasOptionErrors = false;
+        for (const section of ['preview', 'export']) {
+            if (!isConfigMapping(settings) || !isConfigMapping((settings as any)[section])) {
+                continue;
+            }
+            for (const [name, value] of Object.entries((settings as any)[section])) {
+                if (!isConfigMapping(value) || !Array.isArray((value as any).options)) {
+                    continue;
+                }
+                for (const [index, option] of (value as any).options.entries()) {
+                    if (typeof(option) === 'string' && !optionRegex.test(option)) {
+                        errors.push({
+                            keyPath: [key, section, name, 'options', index],
+                            message: `Invalid option "${option}"; check for unsupported reader/writer/output settings, and check quoting/escaping for shell`,
+                        });
+                        hasOptionErrors = true;
+                    }
+                }
+            }
+        }
+        if (hasOptionErrors) {
+            continue;
+        }
+        try {
+            new PandocBuildConfigCollection(key.slice(1), extendsResolver.resolveFileExtensionSettings(key), context, config);
+        } catch (error) {
+            if (error instanceof CodebraidPreviewConfigError && hasConfigKeyPath(build, [key, ...error.keyPath])) {
+                errors.push({keyPath: [key, ...error.keyPath], message: error.message});
+            } else if (error instanceof CodebraidPreviewConfigError) {
+                errors.push({
+                    keyPath: [key],
+                    message: `${error.message} (in settings for ${key} from another source)`,
+                    isFromOtherSettings: true,
+                });
+            } else if (error instanceof CodebraidPreviewError) {
+                errors.push({keyPath: [key], message: error.message});
+            } else {
+                throw error;
+            }
+        }
+    }
+    return errors;
+}
+
+
 export class PandocBuildConfigCollections implements vscode.Disposable {
     private context: vscode.ExtensionContext;
     private buildConfigCollections: Map<string, PandocBuildConfigCollection>;
@@ -231,6 +670,13 @@ export class PandocBuildConfigCollections implements vscode.Disposable {
     private isUpdating: boolean;
     private scheduledUpdateTimer: NodeJS.Timeout | undefined;
     private isDisposed: boolean;
+    // Last valid `build` from each project configuration file, for use while
+    // a file cannot be loaded
+    private lastValidProjectBuildSettings: Map<string, {[key: string]: any}>;
+    private projectConfigDiagnosticCollection: vscode.DiagnosticCollection;
+    // Settings for each file extension (`*.<ext>`) after merging project
+    // configuration files and resolving `extends`, plus where they came from
+    private resolvedSettings: Map<string, {settings: any, sources: Array<string>}>;
 
     constructor(context: vscode.ExtensionContext, config: vscode.WorkspaceConfiguration) {
         this.context = context;
@@ -242,6 +688,10 @@ export class PandocBuildConfigCollections implements vscode.Disposable {
             this.fallbackBuildConfigCollections.set(ext, configCollection);
         }
 
+        this.lastValidProjectBuildSettings = new Map();
+        this.resolvedSettings = new Map();
+        this.projectConfigDiagnosticCollection = vscode.languages.createDiagnosticCollection('Codebraid Preview config');
+
         this.isDisposed = false;
         this.isUpdating = false;
     }
@@ -250,6 +700,7 @@ export class PandocBuildConfigCollections implements vscode.Disposable {
         if (this.scheduledUpdateTimer) {
             clearTimeout(this.scheduledUpdateTimer);
         }
+        this.projectConfigDiagnosticCollection.dispose();
         this.isDisposed = true;
     }
 
@@ -281,33 +732,115 @@ export class PandocBuildConfigCollections implements vscode.Disposable {
 
         this.isUpdating = true;
 
+        // Project configuration files are merged over settings, with later
+        // workspace folders taking precedence
+        // Project configuration files that define each file extension are
+        // tracked along with the build settings that were used from them,
+        // so that errors can be located
+        const buildSettings: Map<string, {settings: any, sources: Array<string>, projectConfigFiles: Array<[ProjectConfigFile, any]>}> = new Map();
+        for (const [key, value] of Object.entries(config.pandoc.build)) {
+            buildSettings.set(key, {settings: value, sources: ['settings'], projectConfigFiles: []});
+        }
+        const projectConfigFiles = await readProjectConfigFiles();
+        if (this.isDisposed) {
+            this.isUpdating = false;
+            return;
+        }
+        const projectConfigFileUris: Set<string> = new Set();
+        for (const projectConfigFile of projectConfigFiles) {
+            const uriString = projectConfigFile.uri.toString();
+            projectConfigFileUris.add(uriString);
+            let projectBuildSettings = projectConfigFile.build;
+            if (projectBuildSettings) {
+                this.lastValidProjectBuildSettings.set(uriString, projectBuildSettings);
+            } else {
+                projectBuildSettings = this.lastValidProjectBuildSettings.get(uriString);
+                if (!projectBuildSettings) {
+                    continue;
+                }
+            }
+            for (const [key, value] of Object.entries(projectBuildSettings)) {
+                const previous = buildSettings.get(key);
+                buildSettings.set(key, {
+                    settings: mergeProjectConfigSettings(previous?.settings, value),
+                    sources: [...(previous ? previous.sources : []), projectConfigFile.fileName],
+                    projectConfigFiles: [...(previous ? previous.projectConfigFiles : []), [projectConfigFile, projectBuildSettings]],
+                });
+            }
+        }
+        for (const uriString of this.lastValidProjectBuildSettings.keys()) {
+            if (!projectConfigFileUris.has(uriString)) {
+                this.lastValidProjectBuildSettings.delete(uriString);
+            }
+        }
+
         // Remove settings for file extensions that are no longer defined.
         // For those that are defined, update the settings if they are valid
         // and otherwise continue with the last valid state.
         const oldKeys = new Set(this.buildConfigCollections.keys());
         const errorMessages: Array<string> = [];
-        for (const [key, value] of Object.entries(config.pandoc.build)) {
+        const projectErrorMessages: Array<string> = [];
+        const extendsResolver = new BuildSettingsExtendsResolver(new Map(Array.from(buildSettings, ([key, {settings}]) => [key, settings])));
+        for (const [key, {sources, projectConfigFiles: keyProjectConfigFiles}] of buildSettings) {
             const inputFileExtension = key.slice(1);  // trim `*` from `*.<ext>`
             oldKeys.delete(inputFileExtension);
             let buildConfigCollection: PandocBuildConfigCollection;
+            let resolvedSettings: any;
             try {
-                buildConfigCollection = new PandocBuildConfigCollection(inputFileExtension, value, this.context, config);
+                resolvedSettings = extendsResolver.resolveFileExtensionSettings(key);
+                buildConfigCollection = new PandocBuildConfigCollection(inputFileExtension, resolvedSettings, this.context, config);
             } catch (error) {
                 if (error instanceof CodebraidPreviewError) {
-                    errorMessages.push(`Failed to process settings for ${key}:  ${error.message}.`);
+                    // Errors are located in the last project configuration
+                    // file that defines the invalid value (or, for missing
+                    // values, the most of its key path).  Otherwise, they
+                    // are attributed to settings.
+                    const errorKeyPath: ConfigKeyPath = [key];
+                    if (error instanceof CodebraidPreviewConfigError) {
+                        errorKeyPath.push(...error.keyPath);
+                    }
+                    let projectConfigFile: ProjectConfigFile | undefined;
+                    let projectKeyPathDepth = 0;
+                    for (const [keyProjectConfigFile, projectBuildSettings] of keyProjectConfigFiles) {
+                        const depth = getConfigKeyPathDepth(projectBuildSettings, errorKeyPath);
+                        if (depth > 0 && depth >= projectKeyPathDepth) {
+                            projectConfigFile = keyProjectConfigFile;
+                            projectKeyPathDepth = depth;
+                        }
+                    }
+                    if (projectConfigFile && projectKeyPathDepth >= getConfigKeyPathDepth(config.pandoc.build, errorKeyPath)) {
+                        projectConfigFile.addError(error.message, ['build', ...errorKeyPath]);
+                        projectErrorMessages.push(`Failed to process "${projectConfigFile.fileName}" for ${key}:  ${error.message}.`);
+                    } else {
+                        errorMessages.push(`Failed to process settings for ${key}:  ${error.message}.`);
+                    }
                     continue;
                 } else {
                     throw error;
                 }
             }
             this.buildConfigCollections.set(inputFileExtension, buildConfigCollection);
+            this.resolvedSettings.set(key, {settings: resolvedSettings, sources: sources});
         }
         for (const oldKey of oldKeys) {
             this.buildConfigCollections.delete(oldKey);
+            this.resolvedSettings.delete(`*${oldKey}`);
         }
         if (errorMessages.length > 0) {
             vscode.window.showErrorMessage(`Invalid settings under "codebraid.preview.pandoc.build":  ${errorMessages.join('  ')}`);
         }
+        this.projectConfigDiagnosticCollection.clear();
+        for (const projectConfigFile of projectConfigFiles) {
+            if (projectConfigFile.diagnostics.length > 0) {
+                this.projectConfigDiagnosticCollection.set(projectConfigFile.uri, projectConfigFile.diagnostics);
+                if (projectErrorMessages.length === 0 && projectConfigFile.diagnostics.some((d) => d.severity === vscode.DiagnosticSeverity.Error)) {
+                    projectErrorMessages.push(`"${projectConfigFile.fileName}" has errors; see the Problems panel.`);
+                }
+            }
+        }
+        if (projectErrorMessages.length > 0) {
+            vscode.window.showErrorMessage(`Invalid project build configuration:  ${projectErrorMessages.join('  ')}`);
+        }
 
         for (const [ext, configCollection] of this.buildConfigCollections) {
             for (const [configType, writerBuildConfigMap] of Object.entries({preview: configCollection.preview, export: configCollection.export})) {
@@ -420,6 +953,15 @@ export class PandocBuildConfigCollections implements vscode.Disposable {
         buildConfig.defaultsFileName = defaultsFileUri.fsPath;
     }
 
+    getResolvedSettings(key: string) : {settings: any, sources: Array<string>} | undefined {
+        // Settings for a file extension (`*.<ext>`), as used to create build
+        // configurations
+        return this.resolvedSettings.get(key);
+    }
+    resolvedSettingsKeys() : IterableIterator<string> {
+        return this.resolvedSettings.keys();
+    }
+
     inputFileExtensions() : IterableIterator<string> {
         return this.buildConfigCollections.keys();
     }
@@ -0,0 +1,100 @@
+// Copyright (c) 2024, Geoffrey M. Poore
+// All rights reserved.
+//
+// Licensed under the BSD 3-Clause License:
+// http://opensource.org/licenses/BSD-3-Clause
+//
+
+
+import * as vscode from 'vscode';
+
+
+export type PandocStderrMessage = {
+	level: string,
+	text: string,
+	line: number | undefined,
+	column: number | undefined,
+	citationKey: string | undefined,
+};
+
+
+// Messages start with a verbosity level.  Any following lines that don't
+// start with a verbosity level are part of the same message (for example,
+// TeX math that could not be converted).
+const messageStartRegex = /^\[(ERROR|WARNING|INFO)\]\s*/;
+// Locations take forms such as `at line 12 column 3` and
+// `"stdin" (line 12, column 3)`
+const lineColumnRegex = /\bline (\d+),? column (\d+)\b/;
+const citationNotFoundRegex = /^Citeproc: citation (\S+) not found/;
+
+
+export function parsePandocStderr(stderr: string) : Array<PandocStderrMessage> {
+	const messages: Array<PandocStderrMessage> = [];
+	let level: string | undefined;
+	let textLines: Array<string> = [];
+	const addMessage = () => {
+		if (level === undefined) {
+			return;
+		}
+		const text = textLines.join('\n').trimEnd();
+		const lineColumnMatch = text.match(lineColumnRegex);
+		const citationMatch = text.match(citationNotFoundRegex);
+		messages.push({
+			level: level,
+			text: text,
+			line: lineColumnMatch ? Number(lineColumnMatch[1]) : undefined,
+			column: lineColumnMatch ? Number(lineColumnMatch[2]) : undefined,
+			citationKey: citationMatch ? citationMatch[1] : undefined,
+		});
+	};
+	for (const line of stderr.split(/\r?\n/)) {
+		const startMatch = line.match(messageStartRegex);
+		if (startMatch) {
+			addMessage();
+			level = startMatch[1];
+			textLines = [line.slice(startMatch[0].length)];
+		} else if (level !== undefined && line.trim() !== '') {
+			textLines.push(line);
+		}
+	}
+	addMessage();
+	return messages;
+}
+
+
+export function pandocLevelToDiagnosticSeverity(level: string) : vscode.DiagnosticSeverity {
+	switch (level) {
+		case 'ERROR': {
+			return vscode.DiagnosticSeverity.Error;
+		}
+		case 'WARNING': {
+			return vscode.DiagnosticSeverity.Warning;
+		}
+		default: {
+			return vscode.DiagnosticSeverity.Information;
+		}
+	}
+}
+
+
+export function findCitationRanges(text: string, citationKey: string) : Array<vscode.Range> {
+	// Find all citations of a key in Markdown text, in both the `@key` and
+	// `@{key}` forms.  Ranges include the `@`.
+	const escapedKey = citationKey.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+	const citationRegex = new RegExp(`(?<![\\w@])@(?:${escapedKey}(?![\\w:.#$%&+?<>~/-]*\\w)|\\{${escapedKey}\\})`, 'g');
+	const ranges: Array<vscode.Range> = [];
+	let lineNumber = 0;
+	let lineStartIndex = 0;
+	for (const match of text.matchAll(citationRegex)) {
+		const index = match.index as number;
+		let newlineIndex = text.indexOf('\n', lineStartIndex);
+		while (newlineIndex !== -1 && newlineIndex < index) {
+			lineNumber += 1;
+			lineStartIndex = newlineIndex + 1;
+			newlineIndex = text.indexOf('\n', lineStartIndex);
+		}
+		const column = index - lineStartIndex;
+		ranges.push(new vscode.Range(lineNumber, column, lineNumber, column + match[0].length));
+	}
+	return ranges;
+}
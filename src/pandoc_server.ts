@@ -0,0 +1,194 @@
+// Copyright (c) 2024, Geoffrey M. Poore
+// All rights reserved.
+//
+// Licensed under the BSD 3-Clause License:
+// http://opensource.org/licenses/BSD-3-Clause
+//
+
+
+import type * as vscode from 'vscode';
+
+import * as http from 'http';
+import * as https from 'https';
+
+
+// After a failed connection, wait this long before trying the server again.
+// Builds in the meantime fall back to running a Pandoc process.
+const serverRetryInterval = 10000;
+
+
+export type PandocServerRequest = {
+	text: string,
+	from: string | undefined,
+	to: string | undefined,
+	args: Array<string>,
+	cwd: string,
+};
+
+export type PandocServerResponse = {
+	error: string | undefined,
+	output: string,
+	stderr: string,
+};
+
+
+export class PandocServer {
+	// Client for a long-lived Pandoc server.  Requests use the JSON protocol
+	// of `pandoc-server` (`text`, `from`, `to`, `standalone`), plus the
+	// fields `args` and `cwd`.  `args` contains the same command-line
+	// arguments that would otherwise be passed to a Pandoc process, so a
+	// server (or a local stand-in for `pandoc-server`) that supports these
+	// fields can produce output identical to a per-build process.
+	private url: URL | undefined;
+	private log: (message: string) => void;
+	private unavailableUntil: number;
+
+	constructor(config: vscode.WorkspaceConfiguration, log: (message: string) => void) {
+		this.log = log;
+		this.unavailableUntil = 0;
+		this.update(config);
+	}
+
+	update(config: vscode.WorkspaceConfiguration) {
+		const serverUrl = config.pandoc.serverUrl;
+		let url: URL | undefined;
+		if (typeof(serverUrl) === 'string' && serverUrl !== '') {
+			try {
+				url = new URL(serverUrl);
+			} catch {
+				this.log(`Invalid Pandoc server URL "${serverUrl}"; Pandoc server is disabled`);
+			}
+			if (url && url.protocol !== 'http:' && url.protocol !== 'https:') {
+				this.log(`Unsupported Pandoc server URL "${serverUrl}" (must be http or https); Pandoc server is disabled`);
+				url = undefined;
+			}
+		}
+		if (url?.href !== this.url?.href) {
+			this.unavailableUntil = 0;
+		}
+		this.url = url;
+	}
+
+	get isEnabled() : boolean {
+		return this.url !== undefined;
+	}
+
+	get isAvailable() : boolean {
+		return this.url !== undefined && Date.now() >= this.unavailableUntil;
+	}
+
+	async convert(request: PandocServerRequest, signal?: AbortSignal) : Promise<PandocServerResponse | undefined> {
+		// Returns `undefined` when the server cannot be reached or has an
+		// internal error, so that the caller can fall back to running a
+		// Pandoc process.  Conversion errors reported by the server are
+		// returned as `error`.
+		const url = this.url;
+		if (!url || !this.isAvailable) {
+			return undefined;
+		}
+		const body = Buffer.from(JSON.stringify({
+			text: request.text,
+			from: request.from,
+			to: request.to,
+			standalone: true,
+			args: request.args,
+			cwd: request.cwd,
+		}), 'utf8');
+		const requestFunction = url.protocol === 'https:' ? https.request : http.request;
+		return new Promise<PandocServerResponse | undefined>((resolve) => {
+			const clientRequest = requestFunction(
+				url,
+				{
+					method: 'POST',
+					signal: signal,
+				},
+				(response) => {
+					response.setEncoding('utf8');
+					const chunks: Array<string> = [];
+					response.on('data', (chunk: string) => {
+						chunks.push(chunk);
+					});
+					response.on('end', () => {
+						const text = chunks.join('');
+						const serverResponse = parsePandocServerResponse(response.statusCode, text);
+						if (!serverResponse) {
+							this.unavailableUntil = Date.now() + serverRetryInterval;
+							this.log([
+								`Pandoc server at ${url.href} returned status ${response.statusCode}:\n${text.trimEnd()}`,
+								`Falling back to Pandoc executable; will retry server in ${serverRetryInterval/1000} seconds.`,
+							].join('\n'));
+						}
+						resolve(serverResponse);
+					});
+					response.on('error', (error) => {
+						resolve({error: `${error}`, output: '', stderr: ''});
+					});
+				}
+			);
+			clientRequest.setHeader('Content-Type', 'application/json');
+			clientRequest.setHeader('Content-Length', body.length);
+			clientRequest.setHeader('Accept', 'application/json');
+			clientRequest.on('error', (error: NodeJS.ErrnoException) => {
+				if (signal?.aborted) {
+					resolve({error: 'Pandoc server request was cancelled', output: '', stderr: ''});
+					return;
+				}
+				this.unavailableUntil = Date.now() + serverRetryInterval;
+				this.log([
+					`Pandoc server at ${url.href} is unavailable (${error.code ? error.code : error.message}).`,
+					`Falling back to Pandoc executable; will retry server in ${serverRetryInterval/1000} seconds.`,
+				].join('\n'));
+				resolve(undefined);
+			});
+			clientRequest.end(body);
+		});
+	}
+}
+
+
+export function parsePandocServerResponse(statusCode: number | undefined, text: string) : PandocServerResponse | undefined {
+	// Returns `undefined` for server errors, which mean the server can't
+	// currently be used.  Other errors are errors in the conversion.
+	if (statusCode === undefined || statusCode >= 500) {
+		return undefined;
+	}
+	if (statusCode !== 200) {
+		// `pandoc-server` returns the Pandoc error message as text.  It is
+		// also used as stderr, so that parse errors can be located.
+		return {error: `Pandoc server returned status ${statusCode}:\n${text}`, output: '', stderr: text};
+	}
+	let data: unknown;
+	try {
+		data = JSON.parse(text);
+	} catch {
+		// Plain text response
+		return {error: undefined, output: text, stderr: ''};
+	}
+	if (typeof(data) === 'string') {
+		return {error: undefined, output: data, stderr: ''};
+	}
+	if (typeof(data) !== 'object' || data === null) {
+		return {error: 'Pandoc server returned invalid or unsupported JSON', output: '', stderr: ''};
+	}
+	if ('error' in data && typeof(data.error) === 'string') {
+		return {error: `Pandoc server returned an error:\n${data.error}`, output: '', stderr: data.error};
+	}
+	if (!('output' in data) || typeof(data.output) !== 'string') {
+		return {error: 'Pandoc server returned invalid or unsupported JSON', output: '', stderr: ''};
+	}
+	if ('base64' in data && data.base64) {
+		return {error: 'Pandoc server returned binary output, which is not supported for preview', output: '', stderr: ''};
+	}
+	const stderrLines: Array<string> = [];
+	if ('messages' in data && Array.isArray(data.messages)) {
+		const messages: Array<unknown> = data.messages;
+		for (const message of messages) {
+			if (typeof(message) !== 'object' || message === null || !('message' in message) || typeof(message.message) !== 'string') {
+				continue;
+			}
+			const verbosity = 'verbosity' in message && typeof(message.verbosity) === 'string' ? message.verbosity : 'WARNING';
+			stderrLines.push(`[${verbosity}] ${message.message}`);
+		}
+	}
+	return {error: undefined, output: data.output, stderr: stderrLines.length > 0 ? stderrLines.join('\n') + '\n' : ''};
+}
@@ -13,6 +13,8 @@ export const pandocReaderWrapperPath = 'pandoc/readers';
 // Relative to document directory (cwd)
 export const processedDefaultsRelativeFileName = '_codebraid/temp_defaults/_codebraid_preview.yaml';
 export const extractedMediaDirectory = '_codebraid/extracted_media';
+export const previewOutputDirectory = '_codebraid/preview_output';
+export const commandStdinDirectory = '_codebraid/command_stdin';
 
 
 export const fallbackFileExtensionToReaderMap: Map<string, string> = new Map([
@@ -63,6 +65,52 @@ export const builtinToFileExtensionMap: Map<string, string> = new Map([
 ]);
 
 
+// Writers with non-HTML output are previewed by converting the output to
+// HTML.  Text output is displayed as source with syntax highlighting, using
+// the language given here.
+export const textPreviewWriterToLanguageMap: Map<string, string> = new Map([
+    ['asciidoc', 'asciidoc'],
+    ['beamer', 'latex'],
+    ['commonmark', 'markdown'],
+    ['commonmark_x', 'markdown'],
+    ['context', 'latex'],
+    ['docbook', 'xml'],
+    ['docbook4', 'xml'],
+    ['docbook5', 'xml'],
+    ['gfm', 'markdown'],
+    ['ipynb', 'json'],
+    ['jats', 'xml'],
+    ['json', 'json'],
+    ['latex', 'latex'],
+    ['markdown', 'markdown'],
+    ['markdown_mmd', 'markdown'],
+    ['markdown_phpextra', 'markdown'],
+    ['markdown_strict', 'markdown'],
+    ['mediawiki', 'mediawiki'],
+    ['native', 'haskell'],
+    ['org', 'org'],
+    ['plain', ''],
+    ['rst', 'rst'],
+    ['rtf', 'rtf'],
+    ['textile', 'textile'],
+    ['typst', 'typst'],
+]);
+
+// Binary output is converted back to HTML with the corresponding reader
+export const roundTripPreviewWriterToReaderMap: Map<string, string> = new Map([
+    ['docx', 'docx'],
+    ['epub', 'epub'],
+    ['epub2', 'epub'],
+    ['epub3', 'epub'],
+    ['odt', 'odt'],
+]);
+
+// These are previewed as an outline of the slides that the writer creates
+export const slideOutlinePreviewWriters: Set<string> = new Set([
+    'pptx',
+]);
+
+
 const exportFileExtensions: Array<string> = Array.from(new Set(builtinToFileExtensionMap.values())).sort();
 export const defaultSaveDialogFilter: {[key: string]: [] | [string]} = {};
 export const defaultSaveDialogFileExtensionToFilterKeyMap: Map<string, string> = new Map();
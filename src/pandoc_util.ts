@@ -10,7 +10,10 @@ import * as vscode from 'vscode';
 
 import { homedir, isWindows } from './constants';
 import CodebraidPreviewError from './err';
-import { pandocReaderWrapperPath, readersWithWrapper, readersWithCodebraid, markdownReaders, commonmarkReaders } from './pandoc_settings';
+import {
+    pandocReaderWrapperPath, readersWithWrapper, readersWithCodebraid, markdownReaders, commonmarkReaders,
+    textPreviewWriterToLanguageMap, roundTripPreviewWriterToReaderMap, slideOutlinePreviewWriters,
+} from './pandoc_settings';
 
 
 
@@ -137,16 +140,49 @@ export class PandocReader extends PandocIOProcessor {
     }
 }
 
+// How writer output is displayed in the preview.  Custom writers are assumed
+// to produce HTML.
+export type PandocWriterPreviewKind = 'html' | 'text' | 'roundTrip' | 'slideOutline';
+
 export class PandocWriter extends PandocIOProcessor {
     asArg: string;
     asCodebraidArg: string;
+    previewKind: PandocWriterPreviewKind;
+    // Syntax highlighting language for text output
+    previewLanguage: string | undefined;
+    // Reader for converting binary output back to HTML
+    previewReader: string | undefined;
 
     constructor(format: string, alias?: string) {
         super(format, alias);
 
         this.asArg = this.customExpanded ? this.customExpanded : this.asPandocString;
         this.asCodebraidArg = this.asArg;
+
+        if (this.builtinBase !== undefined && textPreviewWriterToLanguageMap.has(this.builtinBase)) {
+            this.previewKind = 'text';
+            this.previewLanguage = textPreviewWriterToLanguageMap.get(this.builtinBase);
+        } else if (this.builtinBase !== undefined && roundTripPreviewWriterToReaderMap.has(this.builtinBase)) {
+            this.previewKind = 'roundTrip';
+            this.previewReader = roundTripPreviewWriterToReaderMap.get(this.builtinBase);
+        } else if (this.builtinBase !== undefined && slideOutlinePreviewWriters.has(this.builtinBase)) {
+            this.previewKind = 'slideOutline';
+        } else {
+            this.previewKind = 'html';
+        }
     }
 }
 
+// File names are passed to Pandoc in a shell, within double quotes.  Don't
+// allow command characters, characters invalid in Windows file names, Windows
+// CMD/PowerShell escapes, interpolation, or escaped double quotes.
+const unsupportedShellFileNameRegex = /[\u0000-\u001F\u007F\u0080—\u009F*?"<>|$!%`^]|(?<!^[a-zA-z]):|:(?![\\/])|\\"/;
+
+export function isSupportedShellFileName(fileName: string) : boolean {
+    return !unsupportedShellFileNameRegex.test(fileName);
+}
+
+
 export const fallbackHtmlWriter = new PandocWriter('html');
+// Presentation mode previews slides with reveal.js
+export const presentationWriter = new PandocWriter('revealjs');
@@ -0,0 +1,130 @@
+// Copyright (c) 2024, Geoffrey M. Poore
+// All rights reserved.
+//
+// Licensed under the BSD 3-Clause License:
+// http://opensource.org/licenses/BSD-3-Clause
+//
+
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { isWindows } from './constants';
+
+
+// PDF engines that can be selected for export.  Only engines that are
+// installed are offered.
+export const pdfEngines: Array<string> = [
+	'pdflatex',
+	'xelatex',
+	'lualatex',
+	'tectonic',
+	'typst',
+	'weasyprint',
+];
+
+export type PdfEngineError = {
+	isWarning: boolean,
+	message: string,
+	// LaTeX source context from the log (`l.<line> <context>`), for locating
+	// the error in the document
+	context: string | undefined,
+};
+
+
+async function isOnPath(executable: string, pathDirs: Array<string>, executableExtensions: Array<string>) : Promise<boolean> {
+	for (const dir of pathDirs) {
+		for (const ext of executableExtensions) {
+			try {
+				await fs.promises.access(path.join(dir, executable + ext), isWindows ? fs.constants.F_OK : fs.constants.X_OK);
+				return true;
+			} catch {
+			}
+		}
+	}
+	return false;
+}
+
+export async function findInstalledPdfEngines(env: {[key: string]: string | undefined}) : Promise<Set<string>> {
+	// Search PATH, since running each engine to check its version can be
+	// slow (particularly for TeX distributions that install on demand)
+	const installed: Set<string> = new Set();
+	const pathDirs = (env.PATH || env.Path || '').split(path.delimiter).filter((dir) => dir !== '');
+	const executableExtensions = isWindows ? (env.PATHEXT || '.EXE;.CMD;.BAT').toLowerCase().split(';') : [''];
+	for (const engine of pdfEngines) {
+		if (await isOnPath(engine, pathDirs, executableExtensions)) {
+			installed.add(engine);
+		}
+	}
+	return installed;
+}
+
+
+export function hasPdfEngineOption(options: Array<string>) : boolean {
+	return options.some((option) => /^--pdf-engine(?:[ =]|$)/.test(option));
+}
+
+
+const latexErrorRegex = /^! (.+)$/;
+const latexErrorContextRegex = /^l\.\d+ ?(.*)$/;
+// Tectonic reports errors with the name of the temporary input file
+const tectonicErrorRegex = /^error: \S+?\.tex:\d+: (.+)$/;
+const latexWarningRegex = /^((?:LaTeX|Package \S+|Class \S+) Warning: .+)$/;
+
+export function parsePdfEngineErrors(stderr: string) : Array<PdfEngineError> {
+	// When PDF creation fails, Pandoc includes the relevant part of the LaTeX
+	// log in stderr.  Errors start with `!`, and are followed a few lines
+	// later by the line number and context in the intermediate `.tex` file.
+	const errors: Array<PdfEngineError> = [];
+	const lines = stderr.split(/\r?\n/);
+	for (const [index, line] of lines.entries()) {
+		const errorMatch = line.match(latexErrorRegex);
+		if (errorMatch) {
+			let context: string | undefined;
+			for (const contextLine of lines.slice(index + 1, index + 10)) {
+				if (latexErrorRegex.test(contextLine)) {
+					break;
+				}
+				const contextMatch = contextLine.match(latexErrorContextRegex);
+				if (contextMatch) {
+					context = contextMatch[1];
+					break;
+				}
+			}
+			errors.push({isWarning: false, message: errorMatch[1], context: context});
+			continue;
+		}
+		const tectonicMatch = line.match(tectonicErrorRegex);
+		if (tectonicMatch) {
+			errors.push({isWarning: false, message: tectonicMatch[1], context: undefined});
+			continue;
+		}
+		const warningMatch = line.match(latexWarningRegex);
+		if (warningMatch) {
+			errors.push({isWarning: true, message: warningMatch[1], context: undefined});
+		}
+	}
+	return errors;
+}
+
+
+export function findLatexContextLine(sourceText: string, context: string) : number | undefined {
+	// Locate LaTeX context in the document source.  The intermediate `.tex`
+	// file differs from the source, so this tries the whole context and then
+	// the longest text between LaTeX commands and delimiters.  Only unique
+	// matches are used.  Returns a zero-indexed line.
+	const candidates = [
+		context.trim(),
+		...context.split(/\\[a-zA-Z@]+\*?|[{}$\\&%^_~]/).map((x) => x.trim()).filter((x) => x.length >= 4).sort((a, b) => b.length - a.length),
+	];
+	for (const candidate of candidates) {
+		if (candidate === '') {
+			continue;
+		}
+		const index = sourceText.indexOf(candidate);
+		if (index !== -1 && sourceText.indexOf(candidate, index + 1) === -1) {
+			return sourceText.slice(0, index).split('\n').length - 1;
+		}
+	}
+	return undefined;
+}
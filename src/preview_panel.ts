@@ -16,10 +16,13 @@ import * as url from 'url';
 
 import type { ExtensionState } from './types';
 import type { PandocInfo } from './pandoc_info';
-import { PandocReader, PandocWriter, fallbackHtmlWriter } from './pandoc_util';
-import type { PandocPreviewBuildConfig, PandocExportBuildConfig, PandocBuildConfigCollection } from './pandoc_build_configs';
+import CodebraidPreviewError from './err';
+import { PandocReader, PandocWriter, fallbackHtmlWriter, presentationWriter, isSupportedShellFileName } from './pandoc_util';
+import type { PandocWriterPreviewKind } from './pandoc_util';
+import type { PandocPreviewBuildConfig, PandocExportBuildConfig, PandocExportProfile, PandocExportOnSave, PandocBuildConfigCollection } from './pandoc_build_configs';
 import { PandocDefaultsFile } from './pandoc_defaults_file';
-import { countNewlines, FileExtension } from './util';
+import { countNewlines, FileExtension, killProcessTree } from './util';
+import { isWindows } from './constants';
 import { webviewResources, pandocResources } from './resources';
 import { checkCodebraidVersion, minCodebraidVersionString } from './check_codebraid';
 import {
@@ -28,8 +31,24 @@ import {
 	defaultSaveDialogFilter,
 	defaultSaveDialogFileExtensionToFilterKeyMap,
 	extractedMediaDirectory,
+	previewOutputDirectory,
+	commandStdinDirectory,
 } from './pandoc_settings';
 import { NotebookTextEditor } from './notebook';
+import { parsePandocStderr, pandocLevelToDiagnosticSeverity, findCitationRanges } from './pandoc_diagnostics';
+import {
+	findCodebraidChunks,
+	findCodebraidChunkErrors,
+	findCodebraidErrorLine,
+	disableCodebraidChunks,
+	getCodebraidCollectionTexts,
+} from './codebraid_chunks';
+import type { CodebraidChunk, CodebraidChunkError } from './codebraid_chunks';
+import { readDocumentMetadata } from './document_metadata';
+import { showExportedFileNotification } from './exported_file';
+import { pdfEngines, findInstalledPdfEngines, hasPdfEngineOption, parsePdfEngineErrors, findLatexContextLine } from './pdf_export';
+import type { DocumentMetadata } from './document_metadata';
+import type { CodebraidCollectionInfo, CodebraidCollectionStatus } from './codebraid_sessions_view';
 
 
 type Source = {
@@ -51,6 +70,115 @@ type ScrollSyncData = {
 	map: Map<string, [number, number]>;
 };
 
+// Preview build that is currently running Pandoc.  A build is superseded when
+// newer text is ready to be built, in which case its process is killed (or
+// its server request is aborted) and its results are discarded.
+type PreviewBuild = {
+	id: number;
+	startTime: number;
+	process: child_process.ChildProcess | undefined;
+	abortController: AbortController;
+};
+
+// Adaptive build interval.  The interval is a multiple of the average build
+// time, so that a build can usually finish before the next one supersedes it.
+// The average is an exponential moving average, so it follows changes in
+// document size while smoothing out individual slow builds.
+const buildIntervalBuildTimeFactor = 1.5;
+const buildTimeAverageWeight = 0.3;
+// Only log interval changes at least this large (ms)
+const buildIntervalLogThreshold = 100;
+
+// Limit a Codebraid run to selected code collections (sessions), optionally
+// only up through a given chunk.  Output for other code collections is
+// retained.
+type CodebraidRunFilter = {
+	keys: Set<string>;
+	// One-indexed
+	maxIndex: number | undefined;
+	noCache: boolean;
+};
+
+// Result of a Pandoc export.  `error` is the process error, if any.
+type PandocExportResult = {
+	exportFileName: string;
+	error: child_process.ExecFileException | null;
+	stderr: string;
+	isCancelled: boolean;
+};
+
+// Last export of a document, saved in workspace state under the document file
+// name so that it can be repeated after a window reload.  Either an export
+// profile name or an export file name (plus export build config name, unless
+// the format was from the file extension).  Exports with Codebraid run
+// Codebraid rather than Pandoc.
+type LastExport = {
+	exportProfileName: string | undefined;
+	exportName: string | undefined;
+	exportFileName: string | undefined;
+	// Undefined for exports saved by earlier versions
+	withCodebraid?: boolean;
+	pdfEngine?: string;
+};
+const lastExportsStateKey = 'codebraidPreview.lastExports';
+// Delay after saving before exporting (ms), so that saving multiple times in
+// quick succession only results in a single export
+const exportOnSaveDelay = 1000;
+
+function getExportErrorSummary(error: child_process.ExecFileException, stderr: string) : string {
+	// The last line of stderr that mentions an error, or else the process
+	// error.  Full stderr is logged.
+	const pdfEngineErrors = parsePdfEngineErrors(stderr).filter((pdfEngineError) => !pdfEngineError.isWarning);
+	if (pdfEngineErrors.length > 0) {
+		return pdfEngineErrors[0].message;
+	}
+	const errorLines = stderr.split(/\r?\n/).filter((line) => line.toLowerCase().indexOf('error') !== -1);
+	if (errorLines.length > 0) {
+		return (errorLines.at(-1) as string).trim();
+	}
+	const stderrLines = stderr.split(/\r?\n/).filter((line) => line.trim() !== '');
+	if (stderrLines.length > 0) {
+		return (stderrLines.at(-1) as string).trim();
+	}
+	return error.message.split('\n')[0];
+}
+
+function getMarkdownFence(text: string) : string {
+	// Code block fence that is longer than any sequence of backticks in the
+	// text
+	let maxBackticks = 0;
+	for (const match of text.matchAll(/`+/g)) {
+		maxBackticks = Math.max(maxBackticks, match[0].length);
+	}
+	return '`'.repeat(Math.max(3, maxBackticks + 1));
+}
+
+function textToHighlightedMarkdown(text: string, language: string | undefined) : string {
+	// Wrap writer output in a Markdown code block, for conversion to HTML
+	// with syntax highlighting.  The fence must be longer than any sequence
+	// of backticks in the text.
+	const fence = getMarkdownFence(text);
+	const classes = language ? `.${language} .numberLines` : '.numberLines';
+	return `${fence} {${classes}}\n${text.endsWith('\n') ? text : text + '\n'}${fence}\n`;
+}
+
+function textToMarkdownCodeBlock(text: string, language?: string) : string {
+	const fence = getMarkdownFence(text);
+	return `${fence}${language || ''}\n${text.endsWith('\n') ? text : text + '\n'}${fence}\n`;
+}
+
+function getShellCommand(cwd: string, extraEnv: {[key: string]: string}, command: string, stdinFileName: string) : string {
+	// Command for running a build in a terminal.  Builds run with
+	// `shell: true`, so args are already quoted for the shell that is used
+	// (`cmd.exe` under Windows).
+	if (isWindows) {
+		const envCommands = Object.entries(extraEnv).map(([key, value]) => `set "${key}=${value}" && `);
+		return `cd /d "${cwd}" && ${envCommands.join('')}${command} < "${stdinFileName}"`;
+	}
+	const envAssignments = Object.entries(extraEnv).map(([key, value]) => `${key}='${value.replaceAll("'", "'\\''")}' `);
+	return `cd "${cwd}" && ${envAssignments.join('')}${command} < "${stdinFileName}"`;
+}
+
 type UpdatingStatus = null | 'waiting' | 'running' | 'finished';
 const yamlMetadataRegex = /^---[ \t]*\r?\n.+?\n(?:---|\.\.\.)[ \t]*\r?\n/us;
 const previewHtmlStartRegex = new RegExp([
@@ -64,11 +192,28 @@ const previewHtmlStartRegex = new RegExp([
 	/(?:<!--(?:[^-]|-(?!-))*-->\s*)*/.source,
 	/(?:<meta charset\s*=\s*(?:"[a-zA-Z0-9_-]+"|'[a-zA-Z0-9_-]+')\s*\/?>[ \t\r]*\n?)?/.source,
 ].join(''), 'i');
+// Body of preview HTML, for incremental updates.  Group 1 is the body tag
+// with any attributes, and group 2 is the body content.
+const previewHtmlBodyRegex = /(<body(?:\s[^>]*)?>)(.*)<\/body>\s*<\/html>\s*$/is;
 const stderrDisplayedNeverRegex = /(?:^|(?<=\n))\[WARNING\] This document format requires a nonempty <title> element\.\s*?\r?\n\s+?\S.*?\r?\n\s+?\S.*?(?:\r?\n|$)/;
 const stderrDisplayedOnceRegexes: [RegExp] = [
 	/(?:^|(?<=\n))\[WARNING\] Deprecated: markdown_github. Use gfm instead.\r?\n/,
 ];
 
+export function splitPreviewHtmlBody(html: string) : {head: string, body: string, hasScripts: boolean} | undefined {
+	// Split preview HTML into everything up through the body tag, and the
+	// body content
+	const bodyMatch = previewHtmlBodyRegex.exec(html);
+	if (!bodyMatch) {
+		return undefined;
+	}
+	return {
+		head: html.slice(0, bodyMatch.index) + bodyMatch[1],
+		body: bodyMatch[2],
+		hasScripts: /<script[\s>]/i.test(bodyMatch[2]),
+	};
+}
+
 export default class PreviewPanel implements vscode.Disposable {
 	// `PreviewPanel` interacts extensively with `vscode.TextEditor` and
 	// `vscode.TextDocument`.  It is important to realize that editor and
@@ -92,6 +237,8 @@ export default class PreviewPanel implements vscode.Disposable {
 	// ---------
 	extension: ExtensionState;
 	private onDisposeExtensionCallback?: () => void;
+	private onDidUpdateCodebraidChunksCallback?: () => void;
+	private onDidChangeCodebraidStatusCallback?: () => void;
 
 	// Files
 	// -----
@@ -133,13 +280,21 @@ export default class PreviewPanel implements vscode.Disposable {
 	lastPandocPreviewOptions: PandocPreviewOptions | undefined;
 	pandocPreviewBuildConfig: PandocPreviewBuildConfig | undefined;
 	lastPandocPreviewBuildConfig: PandocPreviewBuildConfig | undefined;
+	// Preview build config name from document metadata of the saved
+	// document, plus names that have already been reported as undefined
+	pinnedPreviewName: string | undefined;
+	warnedPinnedPreviewNames: Set<string>;
 	documentPandocDefaultsFile: PandocDefaultsFile;
 	pandocPreviewWriterQuickPick: vscode.QuickPick<vscode.QuickPickItem> | undefined;
 	pandocExportWriterQuickPick: vscode.QuickPick<vscode.QuickPickItem> | undefined;
 	pandocExportBuildConfigs: Map<string, PandocExportBuildConfig> | undefined;
+	pandocExportProfiles: Map<string, PandocExportProfile> | undefined;
+	pandocExportOnSave: Array<PandocExportOnSave> | undefined;
+	exportOnSaveTimer: NodeJS.Timeout | undefined;
 	lastExportFileNameNoExt: string | undefined;
 	lastExportFileExtension: string | undefined;
 	lastExportWriterName: string | undefined;
+	lastPdfEngine: string | undefined;
 	cacheKey: string;
 	isNotebook: boolean;
 	stderrDisplayedOnce: Set<string>;
@@ -160,15 +315,22 @@ export default class PreviewPanel implements vscode.Disposable {
 	mdPreviewExtStyleUrisEmbed: Array<vscode.Uri | url.URL>;
 	codebraidPreviewJsTag: string;
 	hasScrollSync: boolean;
+	// Slides are displayed with reveal.js, with the current slide synced to
+	// the editor cursor
+	isPresentationMode: boolean;
 	isScrollingEditorWithPreview: boolean;
 	isScrollingEditorWithPreviewTimer: NodeJS.Timeout | undefined;
 	sourceOffset: number;
 	sourceMap: Map<string, [number, number]>;
 	isShowingUpdatingMessage: boolean;
 	isShowingErrorMessage: boolean;
+	lastPreviewHtmlHead: string | undefined;
 	updateTimer: NodeJS.Timeout | undefined;
 	moveCursorTextDecoration: vscode.TextEditorDecorationType;
 	moveCursorTextDecorationTimer: NodeJS.Timeout | undefined;
+	pandocDiagnosticCollection: vscode.DiagnosticCollection;
+	codebraidDiagnosticCollection: vscode.DiagnosticCollection;
+	exportDiagnosticCollection: vscode.DiagnosticCollection;
 	updateConfigurationTimer: NodeJS.Timeout | undefined;
 
 	// Subprocess
@@ -177,26 +339,56 @@ export default class PreviewPanel implements vscode.Disposable {
 	pandocPreviewArgsEmbed: Array<string>;
 	pandocCssArgs: Array<string>;
 	pandocCssArgsEmbed: Array<string>;
+	pandocSlideShowCssArgs: Array<string>;
+	pandocSlideShowCssArgsEmbed: Array<string>;
 	pandocShowRawArgs: Array<string>;
+	pandocHtmlConversionArgs: Array<string>;
 	pandocWithCodebraidOutputArgs: Array<string>;
 	pandocExportArgs: Array<string>;
 	waitedForPythonExtensionActivation: boolean | undefined;
 	codebraidCommand: Array<string> | null | undefined;
 	codebraidArgs: Array<string>;
 	pythonPathToCodebraidCommandCache: Map<string, Array<string>>;
-	buildProcessOptions: child_process.ExecFileOptions;
+	// `execFile()` passes `detached` through to `spawn()`, but it isn't
+	// included in the type definitions
+	buildProcessOptions: child_process.ExecFileOptions & {detached?: boolean};
 	codebraidProcessOptions: child_process.SpawnOptions;
 	lastBuildTime: number;
 	needsBuild: boolean;
 	isBuildInProgress: boolean;
+	previewBuildCount: number;
+	activeBuild: PreviewBuild | undefined;
+	averageBuildTime: number | undefined;
+	loggedBuildInterval: number | undefined;
 	usingCodebraid: boolean;
 	isCodebraidInProgress: boolean;
+	codebraidProcess: child_process.ChildProcess | undefined;
+	codebraidRun: Promise<void> | undefined;
+	isCodebraidCancelled: boolean;
 	hasCodebraidMessageErrors: boolean;
 	didCheckInitialCodebraidCache: boolean;
 	oldCodebraidOutput: Map<string, Array<string>>;
 	currentCodebraidOutput: Map<string, Array<string>>;
 	codebraidProcessingStatus: Map<string, boolean>;
+	// Code collections in the order Codebraid processes them, from the last
+	// index message
+	codebraidCollectionOrder: Array<string>;
+	// Start and end times of the last run of each code collection
+	codebraidCollectionTimes: Map<string, [number, number | undefined]>;
 	codebraidPlaceholderLangs: Map<string, string>;
+	// Errors and stderr from Codebraid output.  {key: {index: errors}}
+	codebraidChunkErrors: Map<string, Map<number, Array<CodebraidChunkError>>>;
+	// Sources from the last build, for locating chunks
+	codebraidSources: Sources | undefined;
+	codebraidRunFilter: CodebraidRunFilter | undefined;
+	documentMetadata: DocumentMetadata;
+	// Run on save can be toggled for each preview, overriding settings and
+	// document metadata
+	codebraidRunOnSaveOverride: boolean | undefined;
+	codebraidRunOnSaveTimer: NodeJS.Timeout | undefined;
+	// Text of code collections as of when they were last executed, for
+	// only running modified code collections on save
+	codebraidExecutedCollectionTexts: Map<string, string> | undefined;
 	isExporting: boolean;
 
 	constructor(editor: vscode.TextEditor | NotebookTextEditor, extension: ExtensionState, fileExtension: FileExtension) {
@@ -305,13 +497,24 @@ export default class PreviewPanel implements vscode.Disposable {
 		[this.mdPreviewExtStyleUris, this.mdPreviewExtStyleUrisEmbed] = this.getMdPreviewExtStylesUrisWithEmbed();
 		this.codebraidPreviewJsTag = `<script type="module" src="${this.webviewResourceUris.codebraidPreviewJs}"></script>`;
 		this.hasScrollSync = false;
+		this.isPresentationMode = false;
 		this.isScrollingEditorWithPreview = false;
 		this.sourceOffset = 0;
 		this.sourceMap = new Map();
 		this.isShowingUpdatingMessage = true;
 		this.isShowingErrorMessage = false;
+		this.lastPreviewHtmlHead = undefined;
 		this.moveCursorTextDecoration = vscode.window.createTextEditorDecorationType({backgroundColor: 'cornflowerblue', isWholeLine: true});
 		this.disposables.push(this.moveCursorTextDecoration);
+		// Each preview has its own diagnostics, so that diagnostics are
+		// removed when the preview is closed
+		this.pandocDiagnosticCollection = vscode.languages.createDiagnosticCollection('Pandoc');
+		this.disposables.push(this.pandocDiagnosticCollection);
+		this.codebraidDiagnosticCollection = vscode.languages.createDiagnosticCollection('Codebraid');
+		this.disposables.push(this.codebraidDiagnosticCollection);
+		// Export diagnostics are kept until the next PDF export
+		this.exportDiagnosticCollection = vscode.languages.createDiagnosticCollection('Pandoc export');
+		this.disposables.push(this.exportDiagnosticCollection);
 		this.showUpdatingMessage(null, null);
 
 		this.pandocPreviewArgs = [
@@ -330,15 +533,29 @@ export default class PreviewPanel implements vscode.Disposable {
 		}
 		this.pandocCssArgs = [];
 		this.pandocCssArgsEmbed = [];
+		// Slide shows use reveal.js themes rather than VS Code styling
+		this.pandocSlideShowCssArgs = [];
+		this.pandocSlideShowCssArgsEmbed = [];
 		for (const key of Object.keys(this.webviewResourceUris)) {
 			if (key.endsWith('Css')) {
 				this.pandocCssArgs.push(`--css=${this.webviewResourceUris[key]}`);
 				this.pandocCssArgsEmbed.push(`--css=${this.webviewResourceUrisEmbed[key]}`);
+				if (key !== 'vscodeCss') {
+					this.pandocSlideShowCssArgs.push(`--css=${this.webviewResourceUris[key]}`);
+					this.pandocSlideShowCssArgsEmbed.push(`--css=${this.webviewResourceUrisEmbed[key]}`);
+				}
 			}
 		}
 		this.pandocShowRawArgs = [
 			`--lua-filter="${this.pandocResourcePaths.showRawFilter}"`,
 		];
+		// Non-HTML writer output is converted to HTML for display, without
+		// scroll sync
+		this.pandocHtmlConversionArgs = [
+			`--standalone`,
+			`--katex=${this.webviewResourceUris.katex}/`,
+			`--variable`, `codebraid_preview`,
+		];
 		this.pandocWithCodebraidOutputArgs = [
 			`--lua-filter="${this.pandocResourcePaths.codebraidOutputFilter}"`,
 		];
@@ -354,21 +571,44 @@ export default class PreviewPanel implements vscode.Disposable {
 		this.buildProcessOptions = {
 			maxBuffer: 1024*1024*16, // = <default>*16 = 16_777_216 bytes
 			cwd: this.cwd,
-			shell: true // not ideal, but consistently 2-5x faster
+			shell: true, // not ideal, but consistently 2-5x faster
+			// Process group allows killing the shell plus Pandoc
+			detached: !isWindows,
 		};
 		this.codebraidProcessOptions = {
 			cwd: this.cwd,
 			shell: true,
+			// Process group allows killing the shell plus Codebraid and any
+			// code it is executing
+			detached: !isWindows,
 		};
 		this.didCheckInitialCodebraidCache = false;
 		this.oldCodebraidOutput = new Map();
 		this.currentCodebraidOutput = new Map();
 		this.codebraidProcessingStatus = new Map();
+		this.codebraidCollectionOrder = [];
+		this.codebraidCollectionTimes = new Map();
 		this.codebraidPlaceholderLangs = new Map();
+		this.codebraidChunkErrors = new Map();
+		this.codebraidSources = undefined;
+		this.codebraidRunFilter = undefined;
+		// Metadata is read from the document during each build
+		this.documentMetadata = readDocumentMetadata('');
+		this.pinnedPreviewName = this.readSavedDocumentMetadata().preview;
+		this.warnedPinnedPreviewNames = new Set();
+		this.codebraidRunOnSaveOverride = undefined;
+		this.codebraidExecutedCollectionTexts = undefined;
 		this.lastBuildTime = 0;
 		this.needsBuild = true;
 		this.isBuildInProgress = false;
+		this.previewBuildCount = 0;
+		this.activeBuild = undefined;
+		this.averageBuildTime = undefined;
+		this.loggedBuildInterval = undefined;
 		this.isCodebraidInProgress = false;
+		this.codebraidProcess = undefined;
+		this.codebraidRun = undefined;
+		this.isCodebraidCancelled = false;
 		this.hasCodebraidMessageErrors = false;
 		this.usingCodebraid = false;
 		this.isExporting = false;
@@ -395,6 +635,11 @@ export default class PreviewPanel implements vscode.Disposable {
 				this,
 				this.disposables
 			);
+			vscode.window.onDidChangeTextEditorSelection(
+				this.onDidChangeTextEditorSelection,
+				this,
+				this.disposables
+			);
 			this.panel.webview.onDidReceiveMessage(
 				this.onDidReceiveMessage,
 				this,
@@ -419,13 +664,29 @@ export default class PreviewPanel implements vscode.Disposable {
 		this.onDisposeExtensionCallback = callback;
 	}
 
+	registerOnDidUpdateCodebraidChunksCallback(callback: () => void) {
+		this.onDidUpdateCodebraidChunksCallback = callback;
+	}
+
+	registerOnDidChangeCodebraidStatusCallback(callback: () => void) {
+		this.onDidChangeCodebraidStatusCallback = callback;
+	}
+
+	private onDidChangeCodebraidStatus() {
+		if (this.onDidChangeCodebraidStatusCallback) {
+			this.onDidChangeCodebraidStatusCallback();
+		}
+	}
+
 	dispose() {
+		this.cancelActiveBuild();
+		this.cancelCodebraid();
 		if (this.panel) {
 			const panel = this.panel;
 			this.panel = undefined;
 			panel.dispose();
 		}
-		for (const timer of [this.updateTimer, this.moveCursorTextDecorationTimer, this.updateConfigurationTimer]) {
+		for (const timer of [this.updateTimer, this.moveCursorTextDecorationTimer, this.updateConfigurationTimer, this.codebraidRunOnSaveTimer, this.exportOnSaveTimer]) {
 			if (timer) {
 				clearTimeout(timer);
 			}
@@ -478,6 +739,8 @@ export default class PreviewPanel implements vscode.Disposable {
 		this.lastPandocPreviewBuildConfig = this.pandocPreviewBuildConfig;
 		this.pandocPreviewBuildConfig = undefined;
 		this.pandocExportBuildConfigs = undefined;
+		this.pandocExportProfiles = undefined;
+		this.pandocExportOnSave = undefined;
 		for (const quickPick of [this.pandocPreviewWriterQuickPick, this.pandocExportWriterQuickPick]) {
 			if (quickPick) {
 				quickPick.dispose();
@@ -490,6 +753,7 @@ export default class PreviewPanel implements vscode.Disposable {
 	}
 
 	private updateFileNames() {
+		const firstFileName = this.fileNames[0];
 		if (this.documentPandocDefaultsFile.isRelevant && this.documentPandocDefaultsFile.data?.inputFiles) {
 			this.fileNames = this.documentPandocDefaultsFile.data?.inputFiles;
 			if (this.previousFileName && this.fileNames.indexOf(this.previousFileName) === -1) {
@@ -499,6 +763,25 @@ export default class PreviewPanel implements vscode.Disposable {
 			this.fileNames = [this.currentFileName];
 			this.previousFileName = undefined;
 		}
+		if (this.fileNames[0] !== firstFileName) {
+			// Document metadata is from the first file
+			this.pinnedPreviewName = this.readSavedDocumentMetadata().preview;
+		}
+	}
+
+	private readSavedDocumentMetadata() : DocumentMetadata {
+		// The preview build config in document metadata is only applied
+		// from the saved document, so that it doesn't change while it is
+		// being typed
+		const document = vscode.workspace.textDocuments.find((document) => document.fileName === this.fileNames[0]);
+		if (document && !document.isDirty) {
+			return readDocumentMetadata(document.getText());
+		}
+		try {
+			return readDocumentMetadata(fs.readFileSync(this.fileNames[0], {encoding: 'utf8'}));
+		} catch {
+			return readDocumentMetadata('');
+		}
 	}
 
 	private updatePandocConfigs() {
@@ -520,6 +803,8 @@ export default class PreviewPanel implements vscode.Disposable {
 			}
 		}
 		this.pandocExportBuildConfigs = buildConfigCollection?.export;
+		this.pandocExportProfiles = buildConfigCollection?.exportProfiles;
+		this.pandocExportOnSave = buildConfigCollection?.exportOnSave;
 
 		let previewBuildConfig: PandocPreviewBuildConfig | undefined;
 		if (!buildConfigCollection) {
@@ -549,11 +834,25 @@ export default class PreviewPanel implements vscode.Disposable {
 			}
 			return;
 		}
+		// A build config in document metadata has precedence over the last
+		// build config
+		if (this.pinnedPreviewName !== undefined) {
+			previewBuildConfig = buildConfigCollection.preview.get(this.pinnedPreviewName);
+			if (!previewBuildConfig && !this.warnedPinnedPreviewNames.has(this.pinnedPreviewName)) {
+				this.warnedPinnedPreviewNames.add(this.pinnedPreviewName);
+				vscode.window.showWarningMessage([
+					`Preview build configuration "${this.pinnedPreviewName}" from document metadata "codebraid_preview"`,
+					`is not defined for ${this.fileExtension}`,
+				].join(' '));
+			}
+		}
 		// There is always at least one config, a fallback for HTML
-		if (buildConfigCollection.preview.size === 1) {
-			previewBuildConfig = buildConfigCollection.preview.values().next().value;
-		} else if (this.lastPandocPreviewOptions?.writer) {
-			previewBuildConfig = buildConfigCollection.preview.get(this.lastPandocPreviewOptions.writer.name);
+		if (!previewBuildConfig) {
+			if (buildConfigCollection.preview.size === 1) {
+				previewBuildConfig = buildConfigCollection.preview.values().next().value;
+			} else if (this.lastPandocPreviewOptions?.writer) {
+				previewBuildConfig = buildConfigCollection.preview.get(this.lastPandocPreviewOptions.writer.name);
+			}
 		}
 		if (previewBuildConfig) {
 			this.updatePandocPreviewBuildConfigAndSettings(previewBuildConfig);
@@ -1011,6 +1310,174 @@ ${message}
 		if (document.fileName === this.documentPandocDefaultsFile.fileName) {
 			this.updateConfiguration();
 		}
+		if (this.fileNames.indexOf(document.fileName) !== -1) {
+			if (document.fileName === this.fileNames[0]) {
+				this.documentMetadata = readDocumentMetadata(document.getText());
+				if (this.documentMetadata.preview !== this.pinnedPreviewName) {
+					this.pinnedPreviewName = this.documentMetadata.preview;
+					this.updateConfiguration();
+				}
+			}
+			if (this.usingCodebraid && this.isCodebraidRunOnSaveEnabled) {
+				this.scheduleCodebraidRunOnSave();
+			}
+			if (this.pandocExportOnSave && this.pandocExportOnSave.length > 0) {
+				this.scheduleExportOnSave();
+			}
+		}
+	}
+
+	scheduleExportOnSave() {
+		if (this.exportOnSaveTimer) {
+			clearTimeout(this.exportOnSaveTimer);
+		}
+		this.exportOnSaveTimer = setTimeout(
+			() => {
+				this.exportOnSaveTimer = undefined;
+				if (!this.panel) {
+					return;
+				}
+				// When code also runs on save, export after it completes so
+				// that the export includes the new output
+				if (this.isExporting || this.isCodebraidInProgress || this.codebraidRunOnSaveTimer) {
+					this.scheduleExportOnSave();
+					return;
+				}
+				this.exportOnSave().catch((error: any) => {
+					vscode.window.showErrorMessage(`Export on save failed: ${error}`);
+				});
+			},
+			exportOnSaveDelay
+		);
+	}
+
+	async exportOnSave() {
+		// Exports run silently unless there are errors.  Configuration may
+		// be updating or invalid, in which case exports wait until the next
+		// save.
+		if (!this.pandocPreviewOptions || !this.pandocInfo || !this.pandocExportOnSave || this.pandocExportOnSave.length === 0) {
+			return;
+		}
+		if (this.isExporting) {
+			// Another export owns the export status
+			this.scheduleExportOnSave();
+			return;
+		}
+		const exportsOnSave = this.pandocExportOnSave;
+		this.isExporting = true;
+		// Any unexpected errors must still reset export status, since
+		// otherwise exports and runs on save would wait indefinitely
+		try {
+			const maybeSources: Sources | undefined = await this.getSources(this.fileNames);
+			if (!this.panel || !maybeSources) {
+				return;
+			}
+			const sources: Sources = maybeSources;
+			this.clearExportDiagnostics();
+			this.extension.statusBarConfig.setDocumentExportRunning();
+			for (const exportOnSave of exportsOnSave) {
+				if (!this.panel) {
+					break;
+				}
+				let exportFileName: string;
+				try {
+					exportFileName = exportOnSave.getExportFileName(this.fileNames[0]);
+				} catch (error) {
+					if (error instanceof CodebraidPreviewError) {
+						vscode.window.showErrorMessage(`Export on save "${exportOnSave.exportName}" failed: ${error.message}`);
+						continue;
+					}
+					throw error;
+				}
+				const exportFileNameErrorMessage = this.checkExportFileName(sources, exportFileName);
+				if (exportFileNameErrorMessage) {
+					vscode.window.showErrorMessage(`Export on save "${exportOnSave.exportName}" failed: ${exportFileNameErrorMessage}`);
+					continue;
+				}
+				try {
+					await fs.promises.mkdir(path.dirname(exportFileName), {recursive: true});
+				} catch {
+					// Pandoc reports the output file as unwritable
+				}
+				const exportBuildConfig = this.pandocExportBuildConfigs?.get(exportOnSave.exportName);
+				const pdfEngine = await this.getPdfEngine(exportBuildConfig, exportFileName, false);
+				if (pdfEngine === null) {
+					continue;
+				}
+				const {error, stderr} = await this.exportPandoc(sources, exportBuildConfig, exportFileName, pdfEngine);
+				if (error) {
+					this.showExportLogMessage('error', `Export on save "${exportOnSave.exportName}" failed: ${getExportErrorSummary(error, stderr)}`);
+				}
+			}
+		} finally {
+			this.extension.statusBarConfig.setDocumentExportWaiting();
+			this.isExporting = false;
+		}
+	}
+
+	get isCodebraidRunOnSaveEnabled() : boolean {
+		if (this.codebraidRunOnSaveOverride !== undefined) {
+			return this.codebraidRunOnSaveOverride;
+		}
+		if (this.documentMetadata.runOnSave !== undefined) {
+			return this.documentMetadata.runOnSave;
+		}
+		return this.extension.config.codebraid.runOnSave;
+	}
+
+	toggleCodebraidRunOnSave() {
+		this.codebraidRunOnSaveOverride = !this.isCodebraidRunOnSaveEnabled;
+		if (!this.codebraidRunOnSaveOverride && this.codebraidRunOnSaveTimer) {
+			clearTimeout(this.codebraidRunOnSaveTimer);
+			this.codebraidRunOnSaveTimer = undefined;
+		}
+	}
+
+	scheduleCodebraidRunOnSave() {
+		// Saving multiple times in quick succession only results in a
+		// single run
+		if (this.codebraidRunOnSaveTimer) {
+			clearTimeout(this.codebraidRunOnSaveTimer);
+		}
+		this.codebraidRunOnSaveTimer = setTimeout(
+			() => {
+				this.codebraidRunOnSaveTimer = undefined;
+				if (!this.panel || !this.isCodebraidRunOnSaveEnabled) {
+					return;
+				}
+				if (this.isCodebraidInProgress || this.isExporting) {
+					this.scheduleCodebraidRunOnSave();
+					return;
+				}
+				this.runCodebraidOnSave();
+			},
+			this.extension.config.codebraid.runOnSaveDelay
+		);
+	}
+
+	async runCodebraidOnSave() {
+		if (this.extension.config.codebraid.runOnSaveScope !== 'changed' || !this.codebraidExecutedCollectionTexts || !this.pandocPreviewOptions) {
+			return this.runCodebraidExecute();
+		}
+		const sources: Sources | undefined = await this.getSources(this.fileNames, this.pandocPreviewOptions.reader);
+		if (!this.panel || !sources || !this.codebraidExecutedCollectionTexts) {
+			return;
+		}
+		const chunks = findCodebraidChunks(
+			sources,
+			this.pandocPreviewOptions.reader?.isCommonmark || false,
+			this.codebraidPlaceholderLangs
+		);
+		const changedKeys: Set<string> = new Set();
+		for (const [key, text] of getCodebraidCollectionTexts(sources, chunks)) {
+			if (this.codebraidExecutedCollectionTexts.get(key) !== text) {
+				changedKeys.add(key);
+			}
+		}
+		if (changedKeys.size === 0) {
+			return;
+		}
+		return this.runCodebraid(false, {keys: changedKeys, maxIndex: undefined, noCache: false});
 	}
 
 	onDidSaveNotebookDocument(notebookDocument: vscode.NotebookDocument) {
@@ -1058,6 +1525,46 @@ ${message}
 		}
 	}
 
+	onDidChangeTextEditorSelection(event: vscode.TextEditorSelectionChangeEvent) {
+		// In presentation mode, the preview shows the slide containing the
+		// cursor
+		if (!this.panel || !this.isPresentationMode || !this.hasScrollSync) {
+			return;
+		}
+		if (event.selections.length === 0 || this.isScrollingEditorWithPreview) {
+			return;
+		}
+		const document = event.textEditor.document;
+		if (document.uri.scheme === 'file' && document.fileName === this.currentFileName) {
+			if (this.extension.statusBarConfig.scrollPreviewWithEditor !== undefined) {
+				if (!this.extension.statusBarConfig.scrollPreviewWithEditor) {
+					return;
+				}
+			} else if (!this.extension.config.scrollPreviewWithEditor) {
+				return;
+			}
+			this.showSlideForLine(document.fileName, event.selections[0].active.line);
+		}
+	}
+
+	private showSlideForLine(fileName: string, line: number) {
+		if (!this.panel) {
+			return;
+		}
+		let startLine = line + 1;  // Webview is one-indexed
+		const fileStartEndLines = this.sourceMap.get(fileName);
+		if (fileStartEndLines) {
+			startLine += fileStartEndLines[0] - 1;
+		} else {
+			return;
+		}
+		startLine += this.sourceOffset;
+		this.panel.webview.postMessage({
+			command: 'codebraidPreview.showSlide',
+			startLine: startLine,
+		});
+	}
+
 	onDidChangePreviewEditor(editor: vscode.TextEditor | NotebookTextEditor) {
 		if (!this.panel) {
 			return;
@@ -1079,6 +1586,10 @@ ${message}
 		} else if (!this.extension.config.scrollPreviewWithEditor) {
 			return;
 		}
+		if (this.isPresentationMode) {
+			this.showSlideForLine(editor.document.fileName, editor.selection.active.line);
+			return;
+		}
 		let startLine = editor.visibleRanges[0].start.line + 1;  // Webview is one-indexed
 		const fileStartEndLines = this.sourceMap.get(editor.document.fileName);
 		if (fileStartEndLines) {
@@ -1233,6 +1744,38 @@ ${message}
 	}
 
 
+	private getPreviewWriter() : PandocWriter | undefined {
+		if (this.isPresentationMode) {
+			return presentationWriter;
+		}
+		return this.pandocPreviewOptions?.writer;
+	}
+
+	setPresentationMode(isPresentationMode: boolean) {
+		if (!this.panel || isPresentationMode === this.isPresentationMode) {
+			return;
+		}
+		this.isPresentationMode = isPresentationMode;
+		this.update();
+	}
+
+	async popOutPresentation() {
+		// Move the preview into its own window for presenting.  Floating
+		// editor windows require VS Code 1.86+, so the editor is maximized
+		// within the current window otherwise.
+		if (!this.panel) {
+			return;
+		}
+		this.setPresentationMode(true);
+		this.panel.reveal(this.panel.viewColumn, false);
+		try {
+			await vscode.commands.executeCommand('workbench.action.moveEditorToNewWindow');
+		} catch {
+			await vscode.commands.executeCommand('workbench.action.maximizeEditor');
+		}
+		await vscode.commands.executeCommand('workbench.action.toggleFullScreen');
+	}
+
 	showPreviewError(executable: string, error: child_process.ExecFileException) {
 		if (!this.panel) {
 			return;
@@ -1265,6 +1808,9 @@ ${message}
 		if (!this.panel) {
 			return;
 		}
+		// The body can only be updated incrementally if the preview is
+		// currently displaying a document, rather than a message
+		const isShowingPreviewHtml: boolean = !this.isShowingUpdatingMessage && !this.isShowingErrorMessage;
 		this.isShowingUpdatingMessage = false;
 		this.isShowingErrorMessage = false;
 		const match = previewHtmlStartRegex.exec(html);
@@ -1274,6 +1820,32 @@ ${message}
 				htmlStart = htmlStart.replace('<html', `<html style="${this.mdPreviewExtFontAttr}"`);
 			}
 			const htmlEnd = html.slice(match[0].length);
+			// When everything up through the body tag is unchanged, the
+			// webview morphs the existing DOM into the new body instead of
+			// reloading the entire document.  This preserves scroll
+			// position, rendered math, and loaded images.  Documents whose
+			// bodies contain scripts are always reloaded, since scripts
+			// inserted into an existing DOM are not executed.
+			const htmlBody = splitPreviewHtmlBody(htmlEnd);
+			if (htmlBody) {
+				const htmlHead = [
+					htmlStart,
+					this.baseTag,
+					this.contentSecurityTag,
+					this.codebraidPreviewJsTag,
+					htmlBody.head,
+				].join('');
+				if (isShowingPreviewHtml && htmlHead === this.lastPreviewHtmlHead && !htmlBody.hasScripts) {
+					this.panel.webview.postMessage({
+						command: 'codebraidPreview.updateBody',
+						bodyHtml: htmlBody.body,
+					});
+					return;
+				}
+				this.lastPreviewHtmlHead = htmlHead;
+			} else {
+				this.lastPreviewHtmlHead = undefined;
+			}
 			const newContent = [
 				this.baseTag,
 				this.contentSecurityTag,
@@ -1292,6 +1864,7 @@ ${message}
 			this.panel.webview.html = patchedHtml;
 		} else {
 			this.isShowingErrorMessage = true;
+			this.lastPreviewHtmlHead = undefined;
 			this.panel.webview.html = this.formatMessage(
 				'Codebraid Preview',
 				`<h1 style="color:red;">Codebraid Preview Error</h1>
@@ -1542,7 +2115,13 @@ ${this.convertStringToLiteralHtml(html)}
 			this.needsBuild = true;
 		}
 
-		if (this.updateTimer || this.isBuildInProgress || !this.pandocPreviewOptions || !this.pandocInfo) {
+		if (this.updateTimer || !this.pandocPreviewOptions || !this.pandocInfo) {
+			return;
+		}
+		if (this.isBuildInProgress && !this.activeBuild) {
+			// The build is still being prepared and hasn't started Pandoc
+			// yet.  Since `needsBuild` is set, another build will start when
+			// it completes.
 			return;
 		}
 
@@ -1559,17 +2138,24 @@ ${this.convertStringToLiteralHtml(html)}
 		}
 
 		let timeNow = Date.now();
-		if (this.lastBuildTime + this.extension.config.minBuildInterval > timeNow) {
+		const buildInterval = this.getBuildInterval();
+		if (this.lastBuildTime + buildInterval > timeNow) {
 			this.updateTimer = setTimeout(
 				() => {
 					this.updateTimer = undefined;
 					this.update();
 				},
-				this.lastBuildTime + this.extension.config.minBuildInterval - timeNow
+				this.lastBuildTime + buildInterval - timeNow
 			);
 			return;
 		}
 
+		if (this.activeBuild) {
+			// The text has changed since the active build started, so its
+			// output would be immediately replaced.  Don't wait for it.
+			this.cancelActiveBuild();
+		}
+
 		this.isBuildInProgress = true;
 		this.needsBuild = false;
 		this.lastBuildTime = timeNow;
@@ -1580,6 +2166,19 @@ ${this.convertStringToLiteralHtml(html)}
 			return;
 		}
 		const sources: Sources = maybeSources;
+		if (sources.length > 0) {
+			this.documentMetadata = readDocumentMetadata(sources[0].fileText);
+		}
+		if (this.usingCodebraid) {
+			// Keep diagnostics and code lenses in sync with chunk locations
+			// as the document is edited
+			this.codebraidSources = sources;
+			this.updateCodebraidDiagnostics(sources);
+			if (this.onDidUpdateCodebraidChunksCallback) {
+				this.onDidUpdateCodebraidChunksCallback();
+			}
+			this.onDidChangeCodebraidStatus();
+		}
 
 		if (this.usingCodebraid && !this.didCheckInitialCodebraidCache && !this.isCodebraidInProgress) {
 			this.didCheckInitialCodebraidCache = true;
@@ -1599,17 +2198,222 @@ ${this.convertStringToLiteralHtml(html)}
 		}
 
 		const executable: string = this.pandocInfo.executable;
-		const args: Array<string> = [];
-		if (this.extension.config.css.useDefault && this.extension.config.css.overrideDefault) {
-			if (this.pandocPreviewOptions.embedResources) {
-				args.push(...this.pandocCssArgsEmbed);
+		const writer: PandocWriter | undefined = this.getPreviewWriter();
+		const writerPreviewKind: PandocWriterPreviewKind = writer ? writer.previewKind : 'html';
+		let previewOutputFileName: string | undefined;
+		if (writerPreviewKind === 'roundTrip' && writer) {
+			// Binary output can't be written to stdout
+			const previewOutputDirUri = vscode.Uri.joinPath(vscode.Uri.file(this.cwd), previewOutputDirectory);
+			try {
+				await vscode.workspace.fs.createDirectory(previewOutputDirUri);
+			} catch (error) {
+				this.isBuildInProgress = false;
+				vscode.window.showErrorMessage(`Failed to create preview output directory "${previewOutputDirUri.fsPath}":  ${error}`);
+				return;
+			}
+			if (!this.panel) {
+				this.isBuildInProgress = false;
+				return;
+			}
+			previewOutputFileName = this.getPreviewOutputFileName(writer);
+		}
+
+		// Store current scroll sync data in object, then swap out for new
+		// data once document is written to pandoc stdin and new data is
+		// calculated, and finally update preview panel once pandoc completes
+		const scrollSyncData: ScrollSyncData = {
+			offset: this.sourceOffset,
+			map: this.sourceMap,
+		};
+		// Whether the build output will contain sourcepos data, which
+		// depends on whether the build uses a reader wrapper
+		let hasSourcepos: boolean = false;
+
+		const onBuildComplete = (error: child_process.ExecFileException | null, stdout: string, stderr: string) => {
+			this.isBuildInProgress = false;
+			if (!this.panel) {
+				return;
+			}
+			if (this.usingContentSecurityNonce) {
+				this.resetContentSecurity();
+			}
+			this.sourceOffset = scrollSyncData.offset;
+			this.sourceMap = scrollSyncData.map;
+			if (error) {
+				let regex: RegExp;
+				if (this.pandocPreviewOptions?.reader?.hasWrapper) {
+					regex = /(?<=Error running Lua:\r?\n)Error at.+?(line.+?)(\d+)(.+?column.+?)(\d+).+?unexpected.+?(?=stack traceback:)/s;
+				} else {
+					regex = /Error at.+?(line.+?)(\d+)(.+?column.+?)(\d+).+?unexpected.+$/s;
+				}
+				let messageMatch = stderr.match(regex);
+				if (messageMatch) {
+					if (this.isShowingUpdatingMessage) {
+						this.showPreviewEmpty();
+					}
+					let message: string;
+					const errorLine = Number(messageMatch[2]);
+					const errorColumn = Number(messageMatch[4]);
+					const [errorFileName, errorFileLine] = this.previewLineToSourceLine(errorLine) || [undefined, undefined];
+					this.setPandocDiagnostics(
+						errorFileName && errorFileLine ? [[errorFileName, new vscode.Diagnostic(
+							new vscode.Range(errorFileLine - 1, Math.max(errorColumn - 1, 0), errorFileLine - 1, Math.max(errorColumn, 1)),
+							messageMatch[0].trim(),
+							vscode.DiagnosticSeverity.Error
+						)]] : []
+					);
+					if (errorFileName && errorFileLine) {
+						const linked = [
+							`<a href="#" class="codebraid-temp-alert-pos" data-codebraid-temp-alert-pos="${errorFileLine}:${errorColumn}">`,
+							this.convertStringToLiteralHtml(messageMatch[1]),
+							errorFileLine.toString(),
+							this.convertStringToLiteralHtml(messageMatch[3]),
+							errorColumn.toString(),
+							`</a>`
+						].join('');
+						const [messageBefore, messageAfter] = messageMatch[0].split(messageMatch.slice(1).join(''), 2);
+						message = [
+							this.sourceMap.size > 1 ? this.convertStringToLiteralHtml(`In "${path.basename(errorFileName)}":\n`) : '',
+							this.convertStringToLiteralHtml(messageBefore),
+							linked,
+							this.convertStringToLiteralHtml(messageAfter),
+						].join('');
+					} else {
+						message = this.convertStringToLiteralHtml(messageMatch[0]);
+					}
+					this.panel.webview.postMessage({
+						command: 'codebraidPreview.tempAlert',
+						tempAlert: `<pre data-codebraid-title="Parse error">${message}</pre>\n`,
+						alertType: 'parseError',
+					});
+				} else {
+					this.setPandocDiagnostics([]);
+					this.hasScrollSync = false;
+					this.showPreviewError(executable, error);
+				}
 			} else {
-				args.push(...this.pandocCssArgs);
+				this.setPandocDiagnostics(this.getPandocStderrDiagnostics(stderr.replace(stderrDisplayedNeverRegex, ''), sources));
+				// Order matters here because `showPreviewHtml()` changes
+				// `isShowing*` status
+				const switchingToPreview: boolean = this.isShowingUpdatingMessage || this.isShowingErrorMessage;
+				this.hasScrollSync = writerPreviewKind === 'html' && hasSourcepos;
+				this.showPreviewHtml(stdout);
+				// If child process output doesn't have expected format,
+				// then can be showing error message at this point
+				if (!this.isShowingErrorMessage && stderr && this.extension.config.pandoc.showStderr !== 'never') {
+					// Strip out standard warning message for HTML without
+					// a title.  If this is relevant for the user's target
+					// output format, a warning will be raised during
+					// export.
+					stderr = stderr.replace(stderrDisplayedNeverRegex, '');
+					for (const regex of stderrDisplayedOnceRegexes) {
+						const match = regex.exec(stderr);
+						if (match) {
+						    if (this.stderrDisplayedOnce.has(match[0])) {
+								stderr = stderr.replaceAll(regex, '');
+							} else {
+								this.stderrDisplayedOnce.add(match[0]);
+							}
+						}
+					}
+					const isWarning: boolean = stderr.toLowerCase().indexOf('warning') !== -1;
+					if (this.extension.config.pandoc.showStderr === 'warning' && !isWarning) {
+						stderr = '';
+					}
+					if (stderr) {
+						this.panel.webview.postMessage({
+							command: 'codebraidPreview.tempAlert',
+							tempAlert: `<pre data-codebraid-title="stderr">${this.convertStringToLiteralHtml(stderr)}</pre>\n`,
+							alertType: 'stderr',
+							isWarning: isWarning,
+						});
+					}
+				}
+				if (switchingToPreview && this.visibleEditor) {
+					this.onDidChangePreviewEditor(this.visibleEditor);
+				}
+			}
+			if (this.needsBuild) {
+				// This timer isn't tracked for disposal since it runs
+				// within the next event loop cycle and thus will quickly
+				// detect `dispose()`.
+				setTimeout(() => {this.update();}, 0);
+			}
+		};
+
+		// Args and stdin depend on whether the build is sent to a Pandoc
+		// server or runs as a process, which is only known once the build
+		// starts.  All stdin is assembled before starting the build.
+		const getBuildInput = (usingPandocServer: boolean) : [Array<string>, string] => {
+			const buildArgs: Array<string> = this.getPandocPreviewArgs(writer, previewOutputFileName, usingPandocServer);
+			const [stdin, nextSourceOffset, nextSourceMap] = this.getPandocPreviewStdin(sources, writer, usingPandocServer);
+			scrollSyncData.offset = nextSourceOffset;
+			scrollSyncData.map = nextSourceMap;
+			const reader: PandocReader | undefined = this.pandocPreviewOptions?.reader;
+			if (this.usingPreviewReaderWrapper(writer, usingPandocServer)) {
+				hasSourcepos = reader?.canSourcepos || false;
+			} else {
+				hasSourcepos = reader?.hasExtensionsSourcepos || false;
+			}
+			return [buildArgs, stdin];
+		};
+
+		let convertToHtml: ((stdout: string) => [Array<string>, string]) | undefined;
+		const conversionArgs: Array<string> | undefined = this.getPandocPreviewConversionArgs(writer, previewOutputFileName);
+		if (conversionArgs) {
+			if (writerPreviewKind === 'text') {
+				convertToHtml = (stdout: string) => {
+					return [conversionArgs, textToHighlightedMarkdown(stdout, writer?.previewLanguage)];
+				};
+			} else {
+				convertToHtml = () => {
+					return [conversionArgs, ''];
+				};
 			}
 		}
+
+		this.runPandocPreviewBuild(executable, getBuildInput, onBuildComplete, convertToHtml);
+	}
+
+	private getPreviewOutputFileName(writer: PandocWriter) : string {
+		const previewOutputDirUri = vscode.Uri.joinPath(vscode.Uri.file(this.cwd), previewOutputDirectory);
+		return path.join(previewOutputDirUri.fsPath, `${this.cacheKey}${builtinToFileExtensionMap.get(writer.builtinBase as string)}`);
+	}
+
+	private usingPreviewReaderWrapper(writer: PandocWriter | undefined, usingPandocServer: boolean = false) : boolean {
+		// Reader wrappers are only used with HTML output, since they add
+		// sourcepos data for scroll sync.  They are Lua readers that are
+		// part of the extension, so they can't be used by a Pandoc server.
+		const writerPreviewKind: PandocWriterPreviewKind = writer ? writer.previewKind : 'html';
+		if (writerPreviewKind !== 'html' || usingPandocServer) {
+			return false;
+		}
+		return this.pandocInfo?.supportsCodebraidWrappers || false;
+	}
+
+	private getPandocPreviewArgs(writer: PandocWriter | undefined, previewOutputFileName: string | undefined, usingPandocServer: boolean = false) : Array<string> {
+		const args: Array<string> = [];
+		if (!this.pandocPreviewOptions) {
+			return args;
+		}
+		const writerPreviewKind: PandocWriterPreviewKind = writer ? writer.previewKind : 'html';
+		// Output from other writers is converted to HTML after the build
+		const isHtmlBuild: boolean = writerPreviewKind === 'html' || writerPreviewKind === 'slideOutline';
+		// reveal.js is loaded from the extension, since the preview can't load
+		// remote scripts
+		const isSlideShow: boolean = writer?.builtinBase === 'revealjs';
+		const cssArgs: Array<string> = [];
+		if (isSlideShow) {
+			cssArgs.push(...(this.pandocPreviewOptions.embedResources ? this.pandocSlideShowCssArgsEmbed : this.pandocSlideShowCssArgs));
+		} else {
+			cssArgs.push(...(this.pandocPreviewOptions.embedResources ? this.pandocCssArgsEmbed : this.pandocCssArgs));
+		}
+		if (isHtmlBuild && this.extension.config.css.useDefault && this.extension.config.css.overrideDefault) {
+			args.push(...cssArgs);
+		}
 		// This follows the built-in Markdown preview, so the
 		// `css.overrideDefault` setting doesn't apply
-		if (this.extension.config.css.useMarkdownPreviewStyles) {
+		if (isHtmlBuild && !isSlideShow && this.extension.config.css.useMarkdownPreviewStyles) {
 			let uris: Array<vscode.Uri | url.URL>;
 			if (this.pandocPreviewOptions.embedResources) {
 				uris = this.mdPreviewExtStyleUrisEmbed;
@@ -1631,30 +2435,42 @@ ${this.convertStringToLiteralHtml(html)}
 			// This needs quoting, since it involves an absolute path
 			args.push('--defaults', `"${this.documentPandocDefaultsFile.processedFileName}"`);
 		}
-		if (this.extension.config.css.useDefault && !this.extension.config.css.overrideDefault) {
+		if (isHtmlBuild && this.extension.config.css.useDefault && !this.extension.config.css.overrideDefault) {
+			args.push(...cssArgs);
+		}
+		if (writerPreviewKind === 'html') {
 			if (this.pandocPreviewOptions.embedResources) {
-				args.push(...this.pandocCssArgsEmbed);
+				args.push(...this.pandocPreviewArgsEmbed);
 			} else {
-				args.push(...this.pandocCssArgs);
+				args.push(...this.pandocPreviewArgs);
 			}
-		}
-		if (this.pandocPreviewOptions.embedResources) {
-			args.push(...this.pandocPreviewArgsEmbed);
+			if (isSlideShow) {
+				if (this.pandocPreviewOptions.embedResources) {
+					args.push('--variable', `revealjs-url=${this.webviewResourceUrisEmbed.revealjs}`);
+				} else {
+					args.push('--variable', `revealjs-url=${this.webviewResourceUris.revealjs}`);
+				}
+			}
+		} else if (writerPreviewKind === 'slideOutline') {
+			args.push(...this.pandocHtmlConversionArgs);
+			args.push(`--lua-filter="${this.pandocResourcePaths.slideOutlineFilter}"`);
 		} else {
-			args.push(...this.pandocPreviewArgs);
+			// Same output as export
+			args.push(...this.pandocExportArgs);
 		}
-		if (this.extension.config.pandoc.showRaw) {
+		if (isHtmlBuild && this.extension.config.pandoc.showRaw) {
 			args.push(...this.pandocShowRawArgs);
 		}
 		if (this.usingCodebraid) {
 			args.push(...this.pandocWithCodebraidOutputArgs);
 		}
+		const usingReaderWrapper: boolean = this.usingPreviewReaderWrapper(writer, usingPandocServer);
 		// Reader and writer don't need quoting, since they are either builtin
 		// (`^[0-9a-z_+-]+$`) or are custom from `settings.json` (and thus
 		// require any quoting by the user).  Readers/writers in preview
 		// defaults file are only extracted and used here if they are builtin.
 		if (this.pandocPreviewOptions.reader) {
-			if (this.pandocInfo.supportsCodebraidWrappers) {
+			if (usingReaderWrapper) {
 				if (this.pandocPreviewOptions.fileScope && this.pandocPreviewOptions.reader.canFileScope && !this.pandocPreviewOptions.reader.hasExtensionsFileScope) {
 					// Any incompatibilities have already resulted in error
 					// messages during configuration update
@@ -1666,136 +2482,24 @@ ${this.convertStringToLiteralHtml(html)}
 				args.push('--from', this.pandocPreviewOptions.reader.asArgNoWrapper);
 			}
 		}
-		if (this.pandocPreviewOptions.writer) {
-			args.push('--to', this.pandocPreviewOptions.writer.asArg);
+		if (writerPreviewKind === 'slideOutline') {
+			args.push('--to', 'html');
+		} else if (writer) {
+			args.push('--to', writer.asArg);
 		}
+		if (previewOutputFileName) {
+			// This needs quoting, since it involves an absolute path
+			args.push('--output', `"${previewOutputFileName}"`);
+		}
+		return args;
+	}
 
-		// Store current scroll sync data in object, then swap out for new
-		// data once document is written to pandoc stdin and new data is
-		// calculated, and finally update preview panel once pandoc completes
-		const scrollSyncData: ScrollSyncData = {
-			offset: this.sourceOffset,
-			map: this.sourceMap,
-		};
-
-		let buildProcess = child_process.execFile(
-			executable,
-			args,
-			{...this.buildProcessOptions, env: {...process.env, ...this.pandocInfo.extraEnv}},
-			(error, stdout, stderr) => {
-				this.isBuildInProgress = false;
-				if (!this.panel) {
-					return;
-				}
-				if (this.usingContentSecurityNonce) {
-					this.resetContentSecurity();
-				}
-				this.sourceOffset = scrollSyncData.offset;
-				this.sourceMap = scrollSyncData.map;
-				if (error) {
-					let regex: RegExp;
-					if (this.pandocPreviewOptions?.reader?.hasWrapper) {
-						regex = /(?<=Error running Lua:\r?\n)Error at.+?(line.+?)(\d+)(.+?column.+?)(\d+).+?unexpected.+?(?=stack traceback:)/s;
-					} else {
-						regex = /Error at.+?(line.+?)(\d+)(.+?column.+?)(\d+).+?unexpected.+$/s;
-					}
-					let messageMatch = stderr.match(regex);
-					if (messageMatch) {
-						if (this.isShowingUpdatingMessage) {
-							this.showPreviewEmpty();
-						}
-						let message: string;
-						const errorLine = Number(messageMatch[2]);
-						const errorColumn = Number(messageMatch[4]);
-						let errorFileName: string | undefined;
-						let errorFileLine: number | undefined;
-						for (const [fileName, [fileStartLine, fileEndLine]] of this.sourceMap) {
-							if (fileStartLine <= errorLine && errorLine <= fileEndLine) {
-								errorFileName = fileName;
-								errorFileLine = errorLine - fileStartLine + 1 - this.sourceOffset;
-								break;
-							}
-						}
-						if (errorFileName && errorFileLine) {
-							const linked = [
-								`<a href="#" class="codebraid-temp-alert-pos" data-codebraid-temp-alert-pos="${errorFileLine}:${errorColumn}">`,
-								this.convertStringToLiteralHtml(messageMatch[1]),
-								errorFileLine.toString(),
-								this.convertStringToLiteralHtml(messageMatch[3]),
-								errorColumn.toString(),
-								`</a>`
-							].join('');
-							const [messageBefore, messageAfter] = messageMatch[0].split(messageMatch.slice(1).join(''), 2);
-							message = [
-								this.sourceMap.size > 1 ? this.convertStringToLiteralHtml(`In "${path.basename(errorFileName)}":\n`) : '',
-								this.convertStringToLiteralHtml(messageBefore),
-								linked,
-								this.convertStringToLiteralHtml(messageAfter),
-							].join('');
-						} else {
-							message = this.convertStringToLiteralHtml(messageMatch[0]);
-						}
-						this.panel.webview.postMessage({
-							command: 'codebraidPreview.tempAlert',
-							tempAlert: `<pre data-codebraid-title="Parse error">${message}</pre>\n`,
-							alertType: 'parseError',
-						});
-					} else {
-						this.hasScrollSync = false;
-						this.showPreviewError(executable, error);
-					}
-				} else {
-					// Order matters here because `showPreviewHtml()` changes
-					// `isShowing*` status
-					const switchingToPreview: boolean = this.isShowingUpdatingMessage || this.isShowingErrorMessage;
-					this.hasScrollSync = this.pandocPreviewOptions?.reader?.canSourcepos || false;
-					this.showPreviewHtml(stdout);
-					// If child process output doesn't have expected format,
-					// then can be showing error message at this point
-					if (!this.isShowingErrorMessage && stderr && this.extension.config.pandoc.showStderr !== 'never') {
-						// Strip out standard warning message for HTML without
-						// a title.  If this is relevant for the user's target
-						// output format, a warning will be raised during
-						// export.
-						stderr = stderr.replace(stderrDisplayedNeverRegex, '');
-						for (const regex of stderrDisplayedOnceRegexes) {
-							const match = regex.exec(stderr);
-							if (match) {
-							    if (this.stderrDisplayedOnce.has(match[0])) {
-									stderr = stderr.replaceAll(regex, '');
-								} else {
-									this.stderrDisplayedOnce.add(match[0]);
-								}
-							}
-						}
-						const isWarning: boolean = stderr.toLowerCase().indexOf('warning') !== -1;
-						if (this.extension.config.pandoc.showStderr === 'warning' && !isWarning) {
-							stderr = '';
-						}
-						if (stderr) {
-							this.panel.webview.postMessage({
-								command: 'codebraidPreview.tempAlert',
-								tempAlert: `<pre data-codebraid-title="stderr">${this.convertStringToLiteralHtml(stderr)}</pre>\n`,
-								alertType: 'stderr',
-								isWarning: isWarning,
-							});
-						}
-					}
-					if (switchingToPreview && this.visibleEditor) {
-						this.onDidChangePreviewEditor(this.visibleEditor);
-					}
-				}
-				if (this.needsBuild) {
-					// This timer isn't tracked for disposal since it runs
-					// within the next event loop cycle and thus will quickly
-					// detect `dispose()`.
-					setTimeout(() => {this.update();}, 0);
-				}
-			}
-		);
-
-		if (this.pandocInfo.supportsCodebraidWrappers && this.pandocPreviewOptions.reader?.hasWrapper) {
-			buildProcess.stdin?.write(this.sourcesToJsonHeader(sources));
+	private getPandocPreviewStdin(sources: Sources, writer: PandocWriter | undefined, usingPandocServer: boolean = false) : [string, number, Map<string, [number, number]>] {
+		// Returns stdin, plus the source offset and source map for scroll
+		// sync
+		const stdinChunks: Array<string> = [];
+		if (this.usingPreviewReaderWrapper(writer, usingPandocServer) && this.pandocPreviewOptions?.reader?.hasWrapper) {
+			stdinChunks.push(this.sourcesToJsonHeader(sources));
 		}
 		let nextSourceOffset: number = 0;
 		let includingCodebraidOutput: boolean;
@@ -1808,7 +2512,7 @@ ${this.convertStringToLiteralHtml(html)}
 			let metadataStartList: Array<string> = [
 				`---`,
 				`codebraid_meta:`,
-				`  commonmark: ${this.pandocPreviewOptions.reader?.isCommonmark || false}`,
+				`  commonmark: ${this.pandocPreviewOptions?.reader?.isCommonmark || false}`,
 				`  running: ${this.isCodebraidInProgress}`,
 			];
 			if (this.isCodebraidInProgress && this.codebraidProcessingStatus.size > 0) {
@@ -1825,17 +2529,17 @@ ${this.convertStringToLiteralHtml(html)}
 			}
 			metadataStartList.push('codebraid_output:\n');
 			let metadataStart = metadataStartList.join('\n');
-			buildProcess.stdin?.write(metadataStart);
+			stdinChunks.push(metadataStart);
 			// Offset ignores `---` for now, since document could start with
 			// that sequence
 			nextSourceOffset += countNewlines(metadataStart) - 1;
 			let keySet = new Set();
 			if (this.currentCodebraidOutput.size > 0) {
 				for (const [key, yamlArray] of this.currentCodebraidOutput) {
-					buildProcess.stdin?.write(`  "${key}":\n`);
+					stdinChunks.push(`  "${key}":\n`);
 					nextSourceOffset += 1;
 					for (const yaml of yamlArray) {
-						buildProcess.stdin?.write(yaml);
+						stdinChunks.push(yaml);
 						nextSourceOffset += countNewlines(yaml);
 					}
 					keySet.add(key);
@@ -1846,10 +2550,10 @@ ${this.convertStringToLiteralHtml(html)}
 					if (keySet.has(key)) {
 						continue;
 					}
-					buildProcess.stdin?.write(`  "${key}":\n`);
+					stdinChunks.push(`  "${key}":\n`);
 					nextSourceOffset += 1;
 					for (const yaml of yamlArray) {
-						buildProcess.stdin?.write(yaml);
+						stdinChunks.push(yaml);
 						nextSourceOffset += countNewlines(yaml);
 					}
 				}
@@ -1862,18 +2566,18 @@ ${this.convertStringToLiteralHtml(html)}
 		for (const source of sources) {
 			if (source.index === 0 && includingCodebraidOutput) {
 				if (yamlMetadataRegex.test(source.fileText)) {
-					buildProcess.stdin?.write(source.fileText.slice(source.fileText.indexOf('\n') + 1));
+					stdinChunks.push(source.fileText.slice(source.fileText.indexOf('\n') + 1));
 				} else {
-					buildProcess.stdin?.write('---\n\n');
+					stdinChunks.push('---\n\n');
 					// Offset start+end delim lines, and trailing blank
 					nextSourceOffset += 3;
-					buildProcess.stdin?.write(source.fileText);
+					stdinChunks.push(source.fileText);
 				}
 			} else {
-				buildProcess.stdin?.write(source.fileText);
+				stdinChunks.push(source.fileText);
 			}
 			if (source.endPaddingText) {
-				buildProcess.stdin?.write(source.endPaddingText);
+				stdinChunks.push(source.endPaddingText);
 			}
 			startLine = endLine + 1;
 			endLine = startLine + source.totalTextLines - 1;
@@ -1885,9 +2589,406 @@ ${this.convertStringToLiteralHtml(html)}
 				nextSourceMap.set(source.fileName, [startLine, endLine]);
 			}
 		}
-		buildProcess.stdin?.end();
-		scrollSyncData.offset = nextSourceOffset;
-		scrollSyncData.map = nextSourceMap;
+		return [stdinChunks.join(''), nextSourceOffset, nextSourceMap];
+	}
+
+	private getPandocPreviewConversionArgs(writer: PandocWriter | undefined, previewOutputFileName: string | undefined) : Array<string> | undefined {
+		// Args for converting output to HTML, for writers whose output can't
+		// be displayed directly
+		const writerPreviewKind: PandocWriterPreviewKind = writer ? writer.previewKind : 'html';
+		if (writerPreviewKind !== 'text' && writerPreviewKind !== 'roundTrip') {
+			return undefined;
+		}
+		const conversionArgs: Array<string> = [];
+		if (this.extension.config.css.useDefault) {
+			conversionArgs.push(...this.pandocCssArgs);
+		}
+		conversionArgs.push(...this.pandocHtmlConversionArgs);
+		if (writerPreviewKind === 'text') {
+			conversionArgs.push('--from', 'markdown', '--to', 'html');
+		} else {
+			conversionArgs.push(
+				`--extract-media="${extractedMediaDirectory}/${this.cacheKey}"`,
+				'--from', writer?.previewReader as string,
+				'--to', 'html',
+				`"${previewOutputFileName}"`
+			);
+		}
+		return conversionArgs;
+	}
+
+	private async runPandocPreviewBuild(
+		executable: string,
+		getBuildInput: (usingPandocServer: boolean) => [Array<string>, string],
+		callback: (error: child_process.ExecFileException | null, stdout: string, stderr: string) => void,
+		convertToHtml?: (stdout: string) => [Array<string>, string]
+	) {
+		this.previewBuildCount += 1;
+		const build: PreviewBuild = {
+			id: this.previewBuildCount,
+			startTime: Date.now(),
+			process: undefined,
+			abortController: new AbortController(),
+		};
+		this.activeBuild = build;
+		// Results from a build that has been superseded are discarded
+		const buildCallback = (error: child_process.ExecFileException | null, stdout: string, stderr: string) => {
+			if (this.activeBuild !== build) {
+				return;
+			}
+			if (!error && convertToHtml) {
+				// Stderr from the build is kept rather than stderr from the
+				// conversion, since it is the relevant output for the writer
+				const [conversionArgs, conversionStdin] = convertToHtml(stdout);
+				build.process = this.startPandocPreviewProcess(
+					executable,
+					conversionArgs,
+					conversionStdin,
+					(conversionError: child_process.ExecFileException | null, conversionStdout: string, conversionStderr: string) => {
+						if (this.activeBuild !== build) {
+							return;
+						}
+						this.activeBuild = undefined;
+						this.recordBuildTime(Date.now() - build.startTime, false);
+						callback(conversionError, conversionStdout, conversionError ? conversionStderr : stderr);
+					}
+				);
+				return;
+			}
+			this.activeBuild = undefined;
+			this.recordBuildTime(Date.now() - build.startTime, false);
+			callback(error, stdout, stderr);
+		};
+		// Builds that need conversion to HTML always use a Pandoc process
+		if (this.extension.pandocServer.isAvailable && this.pandocPreviewOptions && !convertToHtml) {
+			const writer = this.getPreviewWriter();
+			const [args, stdin] = getBuildInput(true);
+			const response = await this.extension.pandocServer.convert(
+				{
+					text: stdin,
+					from: this.pandocPreviewOptions.reader?.asPandocString,
+					to: writer?.previewKind === 'slideOutline' ? 'html' : writer?.asPandocString,
+					args: args,
+					cwd: this.cwd,
+				},
+				build.abortController.signal
+			);
+			if (this.activeBuild !== build) {
+				return;
+			}
+			// If the server is unavailable or fails, fall back to a Pandoc
+			// process
+			if (response) {
+				buildCallback(response.error === undefined ? null : new Error(response.error), response.output, response.stderr);
+				return;
+			}
+		}
+		// The process uses a reader wrapper when possible
+		const [args, stdin] = getBuildInput(false);
+		build.process = this.startPandocPreviewProcess(executable, args, stdin, buildCallback);
+	}
+
+	private startPandocPreviewProcess(
+		executable: string,
+		args: Array<string>,
+		stdin: string,
+		callback: (error: child_process.ExecFileException | null, stdout: string, stderr: string) => void
+	) : child_process.ChildProcess {
+		const pandocProcess = child_process.execFile(
+			executable,
+			args,
+			{...this.buildProcessOptions, env: {...process.env, ...this.pandocInfo?.extraEnv}},
+			callback
+		);
+		pandocProcess.stdin?.on('error', () => {
+			// Writing to a killed process fails, but its build is discarded
+		});
+		pandocProcess.stdin?.end(stdin);
+		return pandocProcess;
+	}
+
+	cancelActiveBuild() {
+		const build = this.activeBuild;
+		if (!build) {
+			return;
+		}
+		this.activeBuild = undefined;
+		this.isBuildInProgress = false;
+		build.abortController.abort();
+		if (build.process) {
+			killProcessTree(build.process);
+		}
+		this.recordBuildTime(Date.now() - build.startTime, true);
+	}
+
+	previewLineToSourceLine(previewLine: number) : [string, number] | undefined {
+		// Convert a line number in Pandoc input into a file name plus line
+		// number (one-indexed)
+		for (const [fileName, [fileStartLine, fileEndLine]] of this.sourceMap) {
+			if (fileStartLine <= previewLine && previewLine <= fileEndLine) {
+				const fileLine = previewLine - fileStartLine + 1 - this.sourceOffset;
+				if (fileLine < 1) {
+					return undefined;
+				}
+				return [fileName, fileLine];
+			}
+		}
+		return undefined;
+	}
+
+	getPandocStderrDiagnostics(stderr: string, sources: Sources) : Array<[string, vscode.Diagnostic]> {
+		const diagnostics: Array<[string, vscode.Diagnostic]> = [];
+		for (const message of parsePandocStderr(stderr)) {
+			const severity = pandocLevelToDiagnosticSeverity(message.level);
+			if (message.citationKey) {
+				// Citeproc doesn't give locations for missing citations
+				let foundCitation: boolean = false;
+				const searchedFileNames: Set<string> = new Set();
+				for (const source of sources) {
+					if (searchedFileNames.has(source.fileName)) {
+						continue;
+					}
+					searchedFileNames.add(source.fileName);
+					for (const range of findCitationRanges(source.fileText, message.citationKey)) {
+						diagnostics.push([source.fileName, new vscode.Diagnostic(range, message.text, severity)]);
+						foundCitation = true;
+					}
+				}
+				if (foundCitation) {
+					continue;
+				}
+			} else if (message.line !== undefined && message.column !== undefined) {
+				const location = this.previewLineToSourceLine(message.line);
+				if (location) {
+					const [fileName, fileLine] = location;
+					const column = Math.max(message.column - 1, 0);
+					diagnostics.push([fileName, new vscode.Diagnostic(
+						new vscode.Range(fileLine - 1, column, fileLine - 1, column + 1),
+						message.text,
+						severity
+					)]);
+					continue;
+				}
+			}
+			// Messages without a usable location are attached to the start
+			// of the document, so that they still appear in the Problems view
+			diagnostics.push([this.currentFileName, new vscode.Diagnostic(new vscode.Range(0, 0, 0, 0), message.text, severity)]);
+		}
+		return diagnostics;
+	}
+
+	setPandocDiagnostics(diagnostics: Array<[string, vscode.Diagnostic]>) {
+		this.pandocDiagnosticCollection.clear();
+		const fileNameDiagnostics: Map<string, Array<vscode.Diagnostic>> = new Map();
+		for (const [fileName, diagnostic] of diagnostics) {
+			diagnostic.source = 'Pandoc';
+			let fileDiagnostics = fileNameDiagnostics.get(fileName);
+			if (!fileDiagnostics) {
+				fileDiagnostics = [];
+				fileNameDiagnostics.set(fileName, fileDiagnostics);
+			}
+			fileDiagnostics.push(diagnostic);
+		}
+		for (const [fileName, fileDiagnostics] of fileNameDiagnostics) {
+			this.pandocDiagnosticCollection.set(vscode.Uri.file(fileName), fileDiagnostics);
+		}
+	}
+
+	updateCodebraidDiagnostics(sources: Sources) {
+		this.codebraidDiagnosticCollection.clear();
+		if (this.codebraidChunkErrors.size === 0) {
+			return;
+		}
+		const fileNameLines: Map<string, Array<string>> = new Map();
+		for (const source of sources) {
+			if (!fileNameLines.has(source.fileName)) {
+				fileNameLines.set(source.fileName, source.fileText.split(/\r?\n/));
+			}
+		}
+		const fileNameDiagnostics: Map<string, Array<vscode.Diagnostic>> = new Map();
+		const chunks = findCodebraidChunks(
+			sources,
+			this.pandocPreviewOptions?.reader?.isCommonmark || false,
+			this.codebraidPlaceholderLangs
+		);
+		for (const chunk of chunks) {
+			const chunkErrors = this.codebraidChunkErrors.get(chunk.key)?.get(chunk.index);
+			if (!chunkErrors) {
+				continue;
+			}
+			const lines = fileNameLines.get(chunk.fileName) as Array<string>;
+			for (const chunkError of chunkErrors) {
+				let line = findCodebraidErrorLine(chunkError.text, chunk.fileName);
+				if (line === undefined || line < chunk.startLine || line > chunk.endLine) {
+					line = chunk.startLine;
+				}
+				const startColumn = line === chunk.startLine ? chunk.startColumn : 0;
+				const diagnostic = new vscode.Diagnostic(
+					new vscode.Range(line, startColumn, line, Math.max(lines[line].length, startColumn + 1)),
+					chunkError.text,
+					chunkError.isStderr ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Error
+				);
+				diagnostic.source = 'Codebraid';
+				let fileDiagnostics = fileNameDiagnostics.get(chunk.fileName);
+				if (!fileDiagnostics) {
+					fileDiagnostics = [];
+					fileNameDiagnostics.set(chunk.fileName, fileDiagnostics);
+				}
+				fileDiagnostics.push(diagnostic);
+			}
+		}
+		for (const [fileName, fileDiagnostics] of fileNameDiagnostics) {
+			this.codebraidDiagnosticCollection.set(vscode.Uri.file(fileName), fileDiagnostics);
+		}
+	}
+
+	getCodebraidChunks(document: vscode.TextDocument) : Array<CodebraidChunk> {
+		// Chunks in a document, using the current document text.  Other
+		// sources are from the last build, since keys and indices depend on
+		// chunks in all sources.
+		if (!this.usingCodebraid || !this.codebraidSources) {
+			return [];
+		}
+		const sources: Array<{fileName: string, fileText: string}> = [];
+		for (const source of this.codebraidSources) {
+			if (source.fileName === document.fileName) {
+				sources.push({fileName: source.fileName, fileText: document.getText()});
+			} else {
+				sources.push(source);
+			}
+		}
+		const chunks = findCodebraidChunks(
+			sources,
+			this.pandocPreviewOptions?.reader?.isCommonmark || false,
+			this.codebraidPlaceholderLangs
+		);
+		return chunks.filter((chunk) => chunk.fileName === document.fileName);
+	}
+
+	getCodebraidCollectionInfo() : Array<CodebraidCollectionInfo> {
+		// Status of each code collection, in order of first appearance in the
+		// document.  This is based on sources from the last build.
+		const chunks = this.codebraidSources ? findCodebraidChunks(
+			this.codebraidSources,
+			this.pandocPreviewOptions?.reader?.isCommonmark || false,
+			this.codebraidPlaceholderLangs
+		) : [];
+		const firstChunks: Map<string, CodebraidChunk | undefined> = new Map();
+		for (const chunk of chunks) {
+			if (!firstChunks.has(chunk.key)) {
+				firstChunks.set(chunk.key, chunk);
+			}
+		}
+		for (const key of this.currentCodebraidOutput.keys()) {
+			if (!firstChunks.has(key)) {
+				firstChunks.set(key, undefined);
+			}
+		}
+		let collectionTexts: Map<string, string> | undefined;
+		if (this.codebraidSources && this.codebraidExecutedCollectionTexts) {
+			collectionTexts = getCodebraidCollectionTexts(this.codebraidSources, chunks);
+		}
+		const now = Date.now();
+		const collections: Array<CodebraidCollectionInfo> = [];
+		for (const [key, firstChunk] of firstChunks) {
+			const [type, lang, ...nameParts] = key.split('.');
+			const times = this.codebraidCollectionTimes.get(key);
+			const collectionErrors = this.codebraidChunkErrors.get(key);
+			let hasErrors = false;
+			if (collectionErrors) {
+				for (const chunkErrors of collectionErrors.values()) {
+					if (chunkErrors.some((chunkError) => !chunkError.isStderr)) {
+						hasErrors = true;
+						break;
+					}
+				}
+			}
+			let status: CodebraidCollectionStatus;
+			if (this.isCodebraidInProgress && this.codebraidProcessingStatus.get(key)) {
+				status = times ? 'running' : 'waiting';
+			} else if (hasErrors) {
+				status = 'error';
+			} else if (!this.currentCodebraidOutput.has(key) || (collectionTexts && this.codebraidExecutedCollectionTexts?.get(key) !== collectionTexts.get(key))) {
+				status = 'stale';
+			} else {
+				status = 'done';
+			}
+			collections.push({
+				key: key,
+				type: type,
+				lang: lang,
+				name: nameParts.join('.'),
+				status: status,
+				elapsedTime: times ? (times[1] === undefined ? now : times[1]) - times[0] : undefined,
+				fileName: firstChunk?.fileName,
+				line: firstChunk?.startLine,
+			});
+		}
+		return collections;
+	}
+
+	revealSourceLine(fileName: string, line: number) {
+		// Show the part of the preview corresponding to a (zero-indexed)
+		// line in a source file
+		if (!this.panel) {
+			return;
+		}
+		this.panel.reveal(undefined, true);
+		const fileStartEndLines = this.sourceMap.get(fileName);
+		if (!this.hasScrollSync || !fileStartEndLines) {
+			return;
+		}
+		this.panel.webview.postMessage({
+			command: 'codebraidPreview.scrollPreview',
+			// Webview is one-indexed
+			startLine: line + 1 + fileStartEndLines[0] - 1 + this.sourceOffset,
+		});
+	}
+
+	getBuildInterval() : number {
+		const minBuildInterval: number = this.extension.config.minBuildInterval;
+		if (!this.extension.config.adaptiveBuildInterval || this.averageBuildTime === undefined) {
+			return minBuildInterval;
+		}
+		const maxBuildInterval: number = Math.max(this.extension.config.maxBuildInterval, minBuildInterval);
+		return Math.round(Math.min(Math.max(this.averageBuildTime * buildIntervalBuildTimeFactor, minBuildInterval), maxBuildInterval));
+	}
+
+	recordBuildTime(buildTime: number, wasCancelled: boolean) {
+		if (wasCancelled) {
+			// A cancelled build only gives a lower bound for the build time,
+			// so it can only increase the average
+			if (this.averageBuildTime !== undefined && buildTime <= this.averageBuildTime) {
+				return;
+			}
+		}
+		if (this.averageBuildTime === undefined) {
+			this.averageBuildTime = buildTime;
+		} else {
+			this.averageBuildTime = buildTimeAverageWeight * buildTime + (1 - buildTimeAverageWeight) * this.averageBuildTime;
+		}
+		// Every build time is logged when enabled, and otherwise only
+		// significant changes in the adaptive build interval are logged
+		let logBuildInterval: number | undefined;
+		if (this.extension.config.adaptiveBuildInterval) {
+			const buildInterval = this.getBuildInterval();
+			if (this.loggedBuildInterval === undefined || Math.abs(buildInterval - this.loggedBuildInterval) >= buildIntervalLogThreshold) {
+				this.loggedBuildInterval = buildInterval;
+				logBuildInterval = buildInterval;
+			}
+		}
+		if (!this.extension.config.logBuildTimes && logBuildInterval === undefined) {
+			return;
+		}
+		const logLines: Array<string> = [
+			`Preview build time for "${path.basename(this.currentFileName)}":`,
+			`${buildTime} ms${wasCancelled ? ' (cancelled)' : ''}, average ${Math.round(this.averageBuildTime)} ms`,
+		];
+		if (logBuildInterval !== undefined) {
+			logLines[logLines.length - 1] += ';';
+			logLines.push(`build interval is now ${logBuildInterval} ms`);
+		}
+		this.extension.log(logLines.join(' '));
 	}
 
 
@@ -1916,9 +3017,12 @@ ${this.convertStringToLiteralHtml(html)}
 
 	receiveCodebraidIndex(data: any) {
 		this.codebraidProcessingStatus = new Map();
+		this.codebraidCollectionOrder = [];
 		for (const codeCollection of data.code_collections) {
 			let key: string = `${codeCollection.type}.${codeCollection.lang}.${codeCollection.name}`;
 			this.codebraidProcessingStatus.set(key, true);
+			this.codebraidCollectionOrder.push(key);
+			this.codebraidCollectionTimes.delete(key);
 			let length: number = codeCollection.length;
 			let yamlArray: Array<string>;
 			let oldYamlArray = this.oldCodebraidOutput.get(key);
@@ -1936,12 +3040,31 @@ ${this.convertStringToLiteralHtml(html)}
 					yamlArray.push(`  - placeholder: true\n`);
 				}
 			}
+			if (this.codebraidRunFilter?.maxIndex !== undefined && oldYamlArray && oldYamlArray.length > length) {
+				// Keep output for chunks after the last chunk that was run
+				yamlArray.push(...oldYamlArray.slice(length));
+			}
 			this.currentCodebraidOutput.set(key, yamlArray);
 		}
-		this.codebraidPlaceholderLangs = new Map(Object.entries(data.placeholder_langs));
+		if (!this.codebraidRunFilter) {
+			// When chunks are filtered, placeholder langs only cover the
+			// chunks that were run, so the existing langs are retained
+			this.codebraidPlaceholderLangs = new Map(Object.entries(data.placeholder_langs));
+		}
+		this.startNextCodebraidCollection();
+		this.onDidChangeCodebraidStatus();
 		this.update();
 	}
 
+	private startNextCodebraidCollection() {
+		// Code collections are processed one at a time, so the next one
+		// starts when the previous one completes
+		const key = this.codebraidCollectionOrder.find((key) => this.codebraidProcessingStatus.get(key));
+		if (key !== undefined && !this.codebraidCollectionTimes.has(key)) {
+			this.codebraidCollectionTimes.set(key, [Date.now(), undefined]);
+		}
+	}
+
 	receiveCodebraidOutput(data: any) {
 		let key = `${data.code_collection.type}.${data.code_collection.lang}.${data.code_collection.name}`;
 		// index is 1-based
@@ -1972,9 +3095,26 @@ ${this.convertStringToLiteralHtml(html)}
 		}
 		// index is 1-based
 		yamlArray[index-1] = yaml;
+		const chunkErrors = findCodebraidChunkErrors(data.output);
+		let collectionErrors = this.codebraidChunkErrors.get(key);
+		if (chunkErrors.length > 0) {
+			if (!collectionErrors) {
+				collectionErrors = new Map();
+				this.codebraidChunkErrors.set(key, collectionErrors);
+			}
+			collectionErrors.set(index, chunkErrors);
+		} else if (collectionErrors) {
+			collectionErrors.delete(index);
+		}
+		if (!this.codebraidCollectionTimes.has(key)) {
+			this.codebraidCollectionTimes.set(key, [Date.now(), undefined]);
+		}
 		if (index === length) {
 			this.codebraidProcessingStatus.set(key, false);
+			(this.codebraidCollectionTimes.get(key) as [number, number | undefined])[1] = Date.now();
+			this.startNextCodebraidCollection();
 		}
+		this.onDidChangeCodebraidStatus();
 		this.update();
 	}
 
@@ -1986,10 +3126,80 @@ ${this.convertStringToLiteralHtml(html)}
 		return this.runCodebraid(true);
 	}
 
-	private async runCodebraid(noExecute: boolean) {
+	cancelCodebraid() : boolean {
+		// Returns whether there was anything to cancel.  Cleanup happens
+		// when `runCodebraid()` detects that the process has exited.
+		if (!this.isCodebraidInProgress || this.isCodebraidCancelled) {
+			return false;
+		}
+		this.isCodebraidCancelled = true;
+		if (this.codebraidProcess) {
+			killProcessTree(this.codebraidProcess);
+		}
+		return true;
+	}
+
+	async runCodebraidSession(key: string) {
+		return this.runCodebraid(false, {keys: new Set([key]), maxIndex: undefined, noCache: false});
+	}
+
+	async restartCodebraidSession(key: string) {
+		// Stop any Codebraid process that is running, wait for its cleanup,
+		// and then run the session from scratch without cached output
+		if (this.isCodebraidInProgress) {
+			const codebraidRun = this.codebraidRun;
+			this.cancelCodebraid();
+			await codebraidRun;
+		}
+		return this.runCodebraid(false, {keys: new Set([key]), maxIndex: undefined, noCache: true});
+	}
+
+	async runCodebraidChunk(key: string, index: number) {
+		return this.runCodebraid(false, {keys: new Set([key]), maxIndex: index, noCache: false});
+	}
+
+	private codebraidChunksMatchOutput(chunks: Array<CodebraidChunk>) : boolean {
+		// Whether the chunks found by scanning the sources agree with the
+		// code collections reported by the last Codebraid run
+		if (this.currentCodebraidOutput.size === 0) {
+			return false;
+		}
+		const chunkCounts: Map<string, number> = new Map();
+		for (const chunk of chunks) {
+			chunkCounts.set(chunk.key, (chunkCounts.get(chunk.key) || 0) + 1);
+		}
+		if (chunkCounts.size !== this.currentCodebraidOutput.size) {
+			return false;
+		}
+		for (const [key, yamlArray] of this.currentCodebraidOutput) {
+			if (chunkCounts.get(key) !== yamlArray.length) {
+				return false;
+			}
+		}
+		return true;
+	}
+
+	private async runCodebraid(noExecute: boolean, filter?: CodebraidRunFilter) {
 		if (!this.panel || this.isCodebraidInProgress) {
 			return;
 		}
+		// Codebraid is marked as in progress before the first `await` in
+		// `runCodebraidProcess()`, so there is never more than one run
+		const codebraidRun = this.runCodebraidProcess(noExecute, filter);
+		this.codebraidRun = codebraidRun;
+		try {
+			await codebraidRun;
+		} finally {
+			if (this.codebraidRun === codebraidRun) {
+				this.codebraidRun = undefined;
+			}
+		}
+	}
+
+	private async runCodebraidProcess(noExecute: boolean, filter?: CodebraidRunFilter) {
+		if (!this.panel) {
+			return;
+		}
 		if (!this.pandocPreviewOptions || !this.pandocInfo) {
 			vscode.window.showErrorMessage(
 				'Cannot run Codebraid while configuration is updating or is invalid'
@@ -2019,6 +3229,7 @@ ${this.convertStringToLiteralHtml(html)}
 		// during file reading by searching for `.cb-` and `.cb.`
 		this.usingCodebraid = true;
 		this.isCodebraidInProgress = true;
+		this.isCodebraidCancelled = false;
 		this.hasCodebraidMessageErrors = false;
 		if (noExecute) {
 			this.extension.statusBarConfig.setCodebraidRunningNoExecute();
@@ -2039,12 +3250,32 @@ ${this.convertStringToLiteralHtml(html)}
 		});
 
 		const maybeSources: Sources | undefined = await this.getSources(this.fileNames, this.pandocPreviewOptions.reader);
-		if (!this.panel || !maybeSources) {
+		if (!this.panel || !maybeSources || this.isCodebraidCancelled) {
 			this.extension.statusBarConfig.setCodebraidWaiting();
 			this.isCodebraidInProgress = false;
+			if (this.isCodebraidCancelled) {
+				this.update();
+			}
 			return;
 		}
 		const sources: Sources = maybeSources;
+		const chunks = findCodebraidChunks(
+			sources,
+			this.pandocPreviewOptions.reader?.isCommonmark || false,
+			this.codebraidPlaceholderLangs
+		);
+		if (filter && !this.codebraidChunksMatchOutput(chunks)) {
+			// Chunks are found by scanning the source, not by Pandoc.  If the
+			// scan disagrees with the last Codebraid run, disabling the other
+			// chunks could disable the wrong ones.
+			this.extension.statusBarConfig.setCodebraidWaiting();
+			this.isCodebraidInProgress = false;
+			this.update();
+			vscode.window.showErrorMessage(
+				'Code chunks in the document do not match the last Codebraid run; run all code with Codebraid, then try again'
+			);
+			return;
+		}
 		const stdinOrigins: Array<{path: string, lines: number}> = [];
 		for (const source of sources) {
 			stdinOrigins.push({path: source.fileName, lines: source.totalTextLines});
@@ -2056,6 +3287,9 @@ ${this.convertStringToLiteralHtml(html)}
 		if (noExecute) {
 			args.push('--no-execute');
 		}
+		if (filter?.noCache) {
+			args.push('--no-cache');
+		}
 		if (this.extension.config.css.useDefault && this.extension.config.css.overrideDefault) {
 			if (this.pandocPreviewOptions.embedResources) {
 				args.push(...this.pandocCssArgsEmbed);
@@ -2101,6 +3335,35 @@ ${this.convertStringToLiteralHtml(html)}
 
 		this.oldCodebraidOutput = this.currentCodebraidOutput;
 		this.currentCodebraidOutput = new Map();
+		const oldCodebraidChunkErrors = this.codebraidChunkErrors;
+		this.codebraidChunkErrors = new Map();
+		let sourceTexts: Array<string>;
+		let executedCollectionTexts: Map<string, string> | undefined;
+		if (!noExecute && filter?.maxIndex === undefined) {
+			executedCollectionTexts = getCodebraidCollectionTexts(sources, chunks);
+		}
+		if (filter) {
+			for (const [key, yamlArray] of this.oldCodebraidOutput) {
+				if (!filter.keys.has(key)) {
+					this.currentCodebraidOutput.set(key, yamlArray);
+				}
+			}
+			for (const [key, collectionErrors] of oldCodebraidChunkErrors) {
+				if (!filter.keys.has(key)) {
+					this.codebraidChunkErrors.set(key, collectionErrors);
+				}
+			}
+			// Convert all other chunks into ordinary code, so that Codebraid
+			// only processes the selected code collection
+			const otherChunks = chunks.filter(
+				(chunk) => !filter.keys.has(chunk.key) || (filter.maxIndex !== undefined && chunk.index > filter.maxIndex)
+			);
+			sourceTexts = disableCodebraidChunks(sources, otherChunks);
+		} else {
+			sourceTexts = sources.map((source) => source.fileText);
+		}
+		this.codebraidRunFilter = filter;
+		this.onDidChangeCodebraidStatus();
 
 		const stderrBuffer: Array<string> = [];
 		const stdoutBuffer: Array<string> = [];
@@ -2110,6 +3373,7 @@ ${this.convertStringToLiteralHtml(html)}
 				args,
 				{...this.codebraidProcessOptions, env: {...process.env, ...this.pandocInfo?.extraEnv}}
 			);
+			this.codebraidProcess = codebraidProcess;
 			codebraidProcess.stdin?.setDefaultEncoding('utf8');
 			codebraidProcess.stdout?.setEncoding('utf8');
 			codebraidProcess.stderr?.setEncoding('utf8');
@@ -2124,6 +3388,9 @@ ${this.convertStringToLiteralHtml(html)}
 				stderrBuffer.push(data);
 			});
 			codebraidProcess.stdout?.on('data', (data: string) => {
+				if (this.isCodebraidCancelled) {
+					return;
+				}
 				const index = data.lastIndexOf('\n');
 				if (index === -1) {
 					stdoutBuffer.push(data);
@@ -2136,10 +3403,17 @@ ${this.convertStringToLiteralHtml(html)}
 					stdoutBuffer.push(data.slice(index+1));
 				}
 			});
+			codebraidProcess.stdin?.on('error', (error: any) => {
+				// Writing fails if the process is cancelled before it reads
+				// all input
+				if (!this.isCodebraidCancelled) {
+					this.extension.log(`Failed to write to Codebraid process:\n${error}`);
+				}
+			});
 			codebraidProcess.stdin?.write(JSON.stringify({origins: stdinOrigins}));
 			codebraidProcess.stdin?.write('\n');
-			for (const source of sources) {
-				codebraidProcess.stdin?.write(source.fileText);
+			for (const [sourceIndex, source] of sources.entries()) {
+				codebraidProcess.stdin?.write(sourceTexts[sourceIndex]);
 				if (source.endPaddingText) {
 					codebraidProcess.stdin?.write(source.endPaddingText);
 				}
@@ -2147,11 +3421,21 @@ ${this.convertStringToLiteralHtml(html)}
 			codebraidProcess.stdin?.end();
 		});
 
-		if (typeof(codebraidProcessExitStatus) === 'string') {
+		this.codebraidProcess = undefined;
+
+		if (this.isCodebraidCancelled) {
+			// Any output received before cancellation is discarded, since it
+			// may be incomplete
+			this.extension.log('Codebraid process was cancelled');
+			vscode.window.showInformationMessage('Codebraid was cancelled');
+			this.currentCodebraidOutput = this.oldCodebraidOutput;
+			this.codebraidChunkErrors = oldCodebraidChunkErrors;
+		} else if (typeof(codebraidProcessExitStatus) === 'string') {
 			const message = `Codebraid process failed: ${codebraidProcessExitStatus}`;
 			vscode.window.showErrorMessage(message);
 			this.extension.log(message);
 			this.currentCodebraidOutput = this.oldCodebraidOutput;
+			this.codebraidChunkErrors = oldCodebraidChunkErrors;
 		} else if (codebraidProcessExitStatus > 0 && codebraidProcessExitStatus < 4) {
 			let message: string;
 			if (stderrBuffer.length === 0) {
@@ -2163,14 +3447,36 @@ ${this.convertStringToLiteralHtml(html)}
 			}
 			vscode.window.showErrorMessage(message);
 			this.currentCodebraidOutput = this.oldCodebraidOutput;
+			this.codebraidChunkErrors = oldCodebraidChunkErrors;
 		} else {
 			for (const jsonData of stdoutBuffer.join('').split('\n')) {
 				this.receiveCodebraidMessage(jsonData);
 			}
+			if (executedCollectionTexts) {
+				if (!filter || !this.codebraidExecutedCollectionTexts) {
+					this.codebraidExecutedCollectionTexts = filter ? new Map() : executedCollectionTexts;
+				}
+				if (filter) {
+					for (const key of filter.keys) {
+						const text = executedCollectionTexts.get(key);
+						if (text !== undefined) {
+							this.codebraidExecutedCollectionTexts.set(key, text);
+						}
+					}
+				}
+			}
 		}
 		this.extension.statusBarConfig.setCodebraidWaiting();
+		for (const [key, times] of this.codebraidCollectionTimes) {
+			if (times[1] === undefined) {
+				// Incomplete due to cancellation or failure
+				this.codebraidCollectionTimes.delete(key);
+			}
+		}
 		this.codebraidProcessingStatus.clear();
+		this.codebraidRunFilter = undefined;
 		this.isCodebraidInProgress = false;
+		this.onDidChangeCodebraidStatus();
 		if (this.hasCodebraidMessageErrors) {
 			vscode.window.showErrorMessage('Received unexpected or invalid output from Codebraid. See Output log for details.');
 		}
@@ -2178,26 +3484,72 @@ ${this.convertStringToLiteralHtml(html)}
 	}
 
 
-	async export() {
+	async exportWithCodebraid() {
+		// Export by running Codebraid with the export writer and output file,
+		// so that the exported document has output from a complete run,
+		// rather than the output currently in the preview
 		if (!this.pandocPreviewOptions || !this.pandocInfo) {
 			vscode.window.showErrorMessage(
 				'Cannot export while configuration is updating or is invalid'
 			);
 			return;
 		}
-		if (this.isNotebook && this.visibleEditor?.document.isDirty) {
-			vscode.window.showErrorMessage(
-				'Cannot export while notebook contains unsaved changes'
-			);
+		if (!this.pandocPreviewOptions.reader?.canCodebraid) {
+			vscode.window.showErrorMessage('Codebraid is not compatible with the current input format');
+			return;
+		}
+		if (!await this.confirmCodebraidExport()) {
 			return;
 		}
+		return this.export(true);
+	}
+
+	private async confirmCodebraidExport() : Promise<boolean> {
 		if (this.isCodebraidInProgress) {
-			vscode.window.showWarningMessage(
-				'Exporting while Codebraid is running can result in incomplete output in the exported document.'
-			);
+			vscode.window.showErrorMessage('Cannot export with Codebraid while Codebraid is running; try again when it completes');
+			return false;
 		}
+		if (this.isExporting) {
+			vscode.window.showErrorMessage('Cannot export while document is already exporting; try again when export completes');
+			return false;
+		}
+		const problemCollections = this.getCodebraidCollectionInfo().filter((collection) => collection.status === 'stale' || collection.status === 'error');
+		if (problemCollections.length === 0) {
+			return true;
+		}
+		const detailLines: Array<string> = [];
+		for (const collection of problemCollections) {
+			const status = collection.status === 'error' ? 'has errors' : 'has been modified since it last ran';
+			detailLines.push(`${collection.type} "${collection.name || '(default)'}" (${collection.lang}) ${status}`);
+		}
+		const choice = await vscode.window.showWarningMessage(
+			'Some Codebraid sessions are stale or have errors.  Export with Codebraid anyway?',
+			{modal: true, detail: detailLines.join('\n')},
+			'Export Anyway'
+		);
+		return choice === 'Export Anyway';
+	}
 
-		this.isExporting = true;
+	async export(withCodebraid: boolean = false) {
+		if (!this.pandocPreviewOptions || !this.pandocInfo) {
+			vscode.window.showErrorMessage(
+				'Cannot export while configuration is updating or is invalid'
+			);
+			return;
+		}
+		if (this.isNotebook && this.visibleEditor?.document.isDirty) {
+			vscode.window.showErrorMessage(
+				'Cannot export while notebook contains unsaved changes'
+			);
+			return;
+		}
+		if (this.isCodebraidInProgress) {
+			vscode.window.showWarningMessage(
+				'Exporting while Codebraid is running can result in incomplete output in the exported document.'
+			);
+		}
+
+		this.isExporting = true;
 
 		const maybeSources: Sources | undefined = await this.getSources(this.fileNames);
 		if (!this.panel || !maybeSources) {
@@ -2207,7 +3559,7 @@ ${this.convertStringToLiteralHtml(html)}
 		const sources: Sources = maybeSources;
 
 		if (!this.pandocExportBuildConfigs || this.pandocExportBuildConfigs.size === 0) {
-			this.exportGetFileName(sources, undefined);
+			this.exportGetFileName(sources, undefined, withCodebraid);
 			return;
 		}
 
@@ -2216,8 +3568,27 @@ ${this.convertStringToLiteralHtml(html)}
 		}
 		const quickPick = vscode.window.createQuickPick();
 		this.pandocExportWriterQuickPick = quickPick;
-		quickPick.title = 'Select Pandoc export format';
+		quickPick.title = withCodebraid ? 'Select Codebraid export format' : 'Select Pandoc export format';
 		const pickItems: Array<{label: string, description?: string, kind?: vscode.QuickPickItemKind.Separator}> = [];
+		// Build configs in document metadata are listed first, so that the
+		// first one is selected by default
+		const pinnedExportNames: Array<string> = [];
+		for (const name of this.documentMetadata.export || []) {
+			if (this.pandocExportBuildConfigs.has(name)) {
+				pinnedExportNames.push(name);
+			} else {
+				vscode.window.showWarningMessage([
+					`Export build configuration "${name}" from document metadata "codebraid_preview"`,
+					`is not defined for ${this.fileExtension}`,
+				].join(' '));
+			}
+		}
+		if (pinnedExportNames.length > 0) {
+			pickItems.push({label: 'document metadata', kind: vscode.QuickPickItemKind.Separator});
+			for (const name of pinnedExportNames) {
+				pickItems.push({label: name});
+			}
+		}
 		if (this.lastExportWriterName && this.pandocExportBuildConfigs.has(this.lastExportWriterName)) {
 			pickItems.push({label: 'most recent', kind: vscode.QuickPickItemKind.Separator});
 			pickItems.push({label: this.lastExportWriterName});
@@ -2227,6 +3598,17 @@ ${this.convertStringToLiteralHtml(html)}
 		// writer is not defined and must be inferred by Pandoc.
 		pickItems.push({label: '', kind: vscode.QuickPickItemKind.Separator});
 		pickItems.push({label: 'From file extension', description: 'Pandoc determines export format from file extension'});
+		// Profiles are identified by pick item, since profile names may be
+		// the same as build config names
+		const profilePickItems: Map<vscode.QuickPickItem, PandocExportProfile> = new Map();
+		if (this.pandocExportProfiles && this.pandocExportProfiles.size > 0 && !withCodebraid) {
+			pickItems.push({label: 'export profiles', kind: vscode.QuickPickItemKind.Separator});
+			for (const [key, exportProfile] of this.pandocExportProfiles) {
+				const pickItem = {label: key, description: `export profile: ${exportProfile.exports.join(', ')}`};
+				pickItems.push(pickItem);
+				profilePickItems.set(pickItem, exportProfile);
+			}
+		}
 		pickItems.push({label: 'user defined', kind: vscode.QuickPickItemKind.Separator});
 		for (const [key, buildConfig] of this.pandocExportBuildConfigs) {
 			if (buildConfig.isPredefined) {
@@ -2248,26 +3630,38 @@ ${this.convertStringToLiteralHtml(html)}
 			pickItems.pop();
 		}
 		quickPick.items = pickItems;
+		// Accepting also hides the quick pick, and the export is still in
+		// progress in that case
+		let isAccepted = false;
 		quickPick.onDidHide(() => {
 			if (this.pandocExportWriterQuickPick) {
 				this.pandocExportWriterQuickPick.dispose();
 				this.pandocExportWriterQuickPick = undefined;
 			}
-			this.isExporting = false;
+			if (!isAccepted) {
+				this.isExporting = false;
+			}
 		});
 		quickPick.onDidAccept(() => {
 			if (this.pandocExportWriterQuickPick) {
-				const picked = this.pandocExportWriterQuickPick.activeItems[0].label;
+				isAccepted = true;
+				const pickedItem = this.pandocExportWriterQuickPick.activeItems[0];
+				const picked = pickedItem.label;
 				this.pandocExportWriterQuickPick.dispose();
 				this.pandocExportWriterQuickPick = undefined;
+				const exportProfile = profilePickItems.get(pickedItem);
+				if (exportProfile) {
+					this.exportProfile(sources, exportProfile);
+					return;
+				}
 				const exportBuildConfig: PandocExportBuildConfig | undefined = this.pandocExportBuildConfigs?.get(picked);
-				this.exportGetFileName(sources, exportBuildConfig);
+				this.exportGetFileName(sources, exportBuildConfig, withCodebraid);
 			}
 		});
 		quickPick.show();
 	}
 
-	private async exportGetFileName(sources: Sources, pandocExportBuildConfig: PandocExportBuildConfig | undefined) {
+	private async exportGetFileName(sources: Sources, pandocExportBuildConfig: PandocExportBuildConfig | undefined, withCodebraid: boolean) {
 		let defaultExportFileNameNoExt: string | undefined;
 		if (this.lastExportFileNameNoExt) {
 			defaultExportFileNameNoExt = this.lastExportFileNameNoExt;
@@ -2314,14 +3708,15 @@ ${this.convertStringToLiteralHtml(html)}
 			}
 		}
 
+		const exportTitle = withCodebraid ? 'Codebraid export' : 'Pandoc export';
 		let saveLabel: string;
 		if (pandocExportBuildConfig) {
-			saveLabel = `Pandoc export (format "${pandocExportBuildConfig.writer.name}")`;
+			saveLabel = `${exportTitle} (format "${pandocExportBuildConfig.writer.name}")`;
 		} else {
-			saveLabel = 'Pandoc export (format from file extension)';
+			saveLabel = `${exportTitle} (format from file extension)`;
 		}
 		const exportUri: vscode.Uri | undefined = await vscode.window.showSaveDialog({
-			title: 'Pandoc export',
+			title: exportTitle,
 			saveLabel: saveLabel,
 			defaultUri: defaultExportUri,
 			filters: saveDialogFilter,
@@ -2331,26 +3726,806 @@ ${this.convertStringToLiteralHtml(html)}
 			return;
 		}
 		const exportFileName = exportUri.fsPath;
-		for (const source of sources) {
-			if (source.fileName === exportFileName) {
-				vscode.window.showErrorMessage(`Export cannot overwrite source file "${path.basename(source.fileName)}"`);
+		const exportFileNameErrorMessage = this.checkExportFileName(sources, exportFileName);
+		if (exportFileNameErrorMessage) {
+			vscode.window.showErrorMessage(exportFileNameErrorMessage);
+			this.isExporting = false;
+			return;
+		}
+
+		const pdfEngine = await this.getPdfEngine(pandocExportBuildConfig, exportFileName, true);
+		if (pdfEngine === null || !this.panel) {
+			this.isExporting = false;
+			return;
+		}
+
+		await this.runExport(sources, pandocExportBuildConfig, exportFileName, withCodebraid, pdfEngine);
+	}
+
+	private isPdfExport(pandocExportBuildConfig: PandocExportBuildConfig | undefined, exportFileName: string) : boolean {
+		if (pandocExportBuildConfig) {
+			return pandocExportBuildConfig.writer.builtinBase === 'pdf';
+		}
+		// Format from file extension
+		return exportFileName.toLowerCase().endsWith('.pdf');
+	}
+
+	private async getPdfEngine(
+		pandocExportBuildConfig: PandocExportBuildConfig | undefined,
+		exportFileName: string,
+		canPrompt: boolean
+	) : Promise<string | undefined | null> {
+		// PDF engine for `--pdf-engine`.  Returns `undefined` when the engine
+		// is determined by build settings or defaults files (or Pandoc's
+		// default is used), and `null` when the export should not continue.
+		if (!this.isPdfExport(pandocExportBuildConfig, exportFileName)) {
+			return undefined;
+		}
+		if (pandocExportBuildConfig && (hasPdfEngineOption(pandocExportBuildConfig.options) || pandocExportBuildConfig.defaults['pdf-engine'] !== undefined)) {
+			return undefined;
+		}
+		if (this.documentPandocDefaultsFile.isRelevant && this.documentPandocDefaultsFile.data?.yaml?.['pdf-engine'] !== undefined) {
+			return undefined;
+		}
+		const installedPdfEngines = await findInstalledPdfEngines({...process.env, ...this.pandocInfo?.extraEnv});
+		const configPdfEngine: string = this.extension.config.export.pdfEngine;
+		if (configPdfEngine) {
+			if (!installedPdfEngines.has(configPdfEngine)) {
+				vscode.window.showErrorMessage([
+					`PDF engine "${configPdfEngine}" from setting "codebraid.preview.export.pdfEngine" was not found.`,
+					`Install it or change the setting.`,
+				].join(' '));
+				return null;
+			}
+			return configPdfEngine;
+		}
+		if (!canPrompt || installedPdfEngines.size === 0) {
+			// Pandoc reports a missing engine
+			return undefined;
+		}
+		const pickItems: Array<vscode.QuickPickItem> = [];
+		if (this.lastPdfEngine && installedPdfEngines.has(this.lastPdfEngine)) {
+			pickItems.push({label: this.lastPdfEngine, description: 'most recent'});
+		}
+		for (const pdfEngine of pdfEngines) {
+			if (installedPdfEngines.has(pdfEngine) && pdfEngine !== this.lastPdfEngine) {
+				pickItems.push({label: pdfEngine});
+			}
+		}
+		const picked = await vscode.window.showQuickPick(pickItems, {
+			title: 'Select PDF engine',
+			placeHolder: 'Only installed engines are shown; set "codebraid.preview.export.pdfEngine" to skip this step',
+		});
+		if (!picked) {
+			return null;
+		}
+		this.lastPdfEngine = picked.label;
+		return picked.label;
+	}
+
+	private clearExportDiagnostics() {
+		// Diagnostics are cleared once per export run, so that with multiple
+		// exports (profiles and export on save) they accumulate
+		this.exportDiagnosticCollection.clear();
+	}
+
+	private setExportDiagnostics(sources: Sources, stderr: string) {
+		// Errors from LaTeX or other PDF engines.  These refer to the
+		// intermediate file, so they are located by searching the document
+		// for the error context, with a fallback of the start of the document.
+		const fileNameDiagnostics: Map<string, Array<vscode.Diagnostic>> = new Map();
+		for (const pdfEngineError of parsePdfEngineErrors(stderr)) {
+			let fileName = sources[0].fileName;
+			let line = 0;
+			if (pdfEngineError.context) {
+				for (const source of sources) {
+					const contextLine = findLatexContextLine(source.fileText, pdfEngineError.context);
+					if (contextLine !== undefined) {
+						fileName = source.fileName;
+						line = contextLine;
+						break;
+					}
+				}
+			}
+			const diagnostic = new vscode.Diagnostic(
+				new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER),
+				pdfEngineError.message,
+				pdfEngineError.isWarning ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Error
+			);
+			diagnostic.source = 'PDF export';
+			let fileDiagnostics = fileNameDiagnostics.get(fileName);
+			if (!fileDiagnostics) {
+				fileDiagnostics = [];
+				fileNameDiagnostics.set(fileName, fileDiagnostics);
+			}
+			fileDiagnostics.push(diagnostic);
+		}
+		for (const [fileName, fileDiagnostics] of fileNameDiagnostics) {
+			const uri = vscode.Uri.file(fileName);
+			this.exportDiagnosticCollection.set(uri, [...(this.exportDiagnosticCollection.get(uri) || []), ...fileDiagnostics]);
+		}
+	}
+
+	private async runExport(
+		sources: Sources,
+		pandocExportBuildConfig: PandocExportBuildConfig | undefined,
+		exportFileName: string,
+		withCodebraid: boolean,
+		pdfEngine: string | undefined
+	) {
+		const exportTitle = withCodebraid ? 'Codebraid export' : 'Pandoc export';
+		// Exports on save and Codebraid runs wait while this is set
+		this.isExporting = true;
+		let result: PandocExportResult;
+		try {
+			this.clearExportDiagnostics();
+			this.extension.statusBarConfig.setDocumentExportRunning();
+			result = await vscode.window.withProgress(
+				{
+					location: vscode.ProgressLocation.Notification,
+					title: withCodebraid ? `Running code and exporting "${path.basename(exportFileName)}"` : `Exporting "${path.basename(exportFileName)}"`,
+					cancellable: true,
+				},
+				(progress, token) => {
+					if (withCodebraid) {
+						return this.exportCodebraid(sources, pandocExportBuildConfig, exportFileName, pdfEngine, token);
+					}
+					return this.exportPandoc(sources, pandocExportBuildConfig, exportFileName, pdfEngine, token);
+				}
+			);
+		} finally {
+			this.extension.statusBarConfig.setDocumentExportWaiting();
+			this.isExporting = false;
+		}
+		const {error, stderr, isCancelled} = result;
+		if (!this.panel) {
+			return;
+		}
+		if (isCancelled) {
+			vscode.window.showInformationMessage(`${exportTitle} was cancelled`);
+			return;
+		}
+		// Full details are in the Output log, so messages only summarize
+		if (error) {
+			this.showExportLogMessage('error', `${exportTitle} failed: ${getExportErrorSummary(error, stderr)}`);
+		} else if (stderr) {
+			if (stderr.toLowerCase().indexOf('error') !== -1) {
+				this.showExportLogMessage('error', `${exportTitle} completed with errors`);
+			} else if (stderr.toLowerCase().indexOf('warning') !== -1){
+				this.showExportLogMessage('warning', `${exportTitle} completed with warnings`);
+			}
+		}
+		if (!error) {
+			const writer: PandocWriter | undefined = pandocExportBuildConfig?.writer;
+			if (path.basename(exportFileName).lastIndexOf('.') !== -1) {
+				const extIndex = exportFileName.lastIndexOf('.');
+				this.lastExportFileNameNoExt = exportFileName.slice(0, extIndex);
+				this.lastExportFileExtension = exportFileName.slice(extIndex);
+				this.lastExportWriterName = writer?.name;
+			} else {
+				this.lastExportFileNameNoExt = exportFileName;
+				this.lastExportFileExtension = undefined;
+				this.lastExportWriterName = writer?.name;
+			}
+			this.saveLastExport({
+				exportProfileName: undefined,
+				exportName: writer?.name,
+				exportFileName: exportFileName,
+				withCodebraid: withCodebraid,
+				pdfEngine: pdfEngine,
+			});
+			showExportedFileNotification(exportFileName);
+		}
+	}
+
+	private getLastExport() : LastExport | undefined {
+		const lastExports = this.extension.context.workspaceState.get<{[key: string]: LastExport}>(lastExportsStateKey);
+		return lastExports?.[this.fileNames[0]];
+	}
+
+	private saveLastExport(lastExport: LastExport) {
+		const lastExports = this.extension.context.workspaceState.get<{[key: string]: LastExport}>(lastExportsStateKey) || {};
+		lastExports[this.fileNames[0]] = lastExport;
+		this.extension.context.workspaceState.update(lastExportsStateKey, lastExports);
+	}
+
+	async reExport() {
+		// Repeat the last export of the document without any prompts.  If
+		// there is no previous export, this is equivalent to `export()`.
+		const lastExport = this.getLastExport();
+		if (!lastExport) {
+			return this.export();
+		}
+		if (!this.pandocPreviewOptions || !this.pandocInfo) {
+			vscode.window.showErrorMessage(
+				'Cannot export while configuration is updating or is invalid'
+			);
+			return;
+		}
+		if (this.isNotebook && this.visibleEditor?.document.isDirty) {
+			vscode.window.showErrorMessage(
+				'Cannot export while notebook contains unsaved changes'
+			);
+			return;
+		}
+		if (this.isExporting) {
+			vscode.window.showErrorMessage(
+				'Cannot export while document is already exporting; try again when export completes'
+			);
+			return;
+		}
+		let exportProfile: PandocExportProfile | undefined;
+		let exportBuildConfig: PandocExportBuildConfig | undefined;
+		if (lastExport.exportProfileName !== undefined) {
+			exportProfile = this.pandocExportProfiles?.get(lastExport.exportProfileName);
+			if (!exportProfile) {
+				vscode.window.showErrorMessage(`Cannot repeat export; export profile "${lastExport.exportProfileName}" no longer exists`);
+				return;
+			}
+		} else if (lastExport.exportName !== undefined) {
+			exportBuildConfig = this.pandocExportBuildConfigs?.get(lastExport.exportName);
+			if (!exportBuildConfig) {
+				vscode.window.showErrorMessage(`Cannot repeat export; export format "${lastExport.exportName}" no longer exists`);
+				return;
+			}
+		}
+		if (lastExport.withCodebraid) {
+			if (!await this.confirmCodebraidExport()) {
+				return;
+			}
+		} else if (this.isCodebraidInProgress) {
+			vscode.window.showWarningMessage(
+				'Exporting while Codebraid is running can result in incomplete output in the exported document.'
+			);
+		}
+
+		this.isExporting = true;
+
+		const maybeSources: Sources | undefined = await this.getSources(this.fileNames);
+		if (!this.panel || !maybeSources) {
+			this.isExporting = false;
+			return;
+		}
+		const sources: Sources = maybeSources;
+
+		if (exportProfile) {
+			await this.exportProfile(sources, exportProfile);
+			return;
+		}
+		const exportFileName = lastExport.exportFileName as string;
+		const exportFileNameErrorMessage = this.checkExportFileName(sources, exportFileName);
+		if (exportFileNameErrorMessage) {
+			vscode.window.showErrorMessage(exportFileNameErrorMessage);
+			this.isExporting = false;
+			return;
+		}
+		let pdfEngine: string | undefined | null = lastExport.pdfEngine;
+		if (pdfEngine === undefined) {
+			pdfEngine = await this.getPdfEngine(exportBuildConfig, exportFileName, false);
+			if (pdfEngine === null || !this.panel) {
 				this.isExporting = false;
 				return;
 			}
 		}
-		if (/[\u0000-\u001F\u007F\u0080—\u009F*?"<>|$!%`^]|(?<!^[a-zA-z]):|:(?![\\/])|\\"/.test(exportFileName)) {
-			// Don't allow command characters, characters invalid in Windows
-			// file names, Windows CMD/PowerShell escapes, interpolation, or
-			// escaped double quotes.
-			vscode.window.showErrorMessage(`Cannot export file; invalid or unsupported file name: "${exportFileName}"`);
+		await this.runExport(sources, exportBuildConfig, exportFileName, lastExport.withCodebraid || false, pdfEngine);
+	}
+
+	private async showExportLogMessage(severity: 'error' | 'warning' | 'information', message: string) {
+		let showMessage: (message: string, ...items: Array<string>) => Thenable<string | undefined>;
+		if (severity === 'error') {
+			showMessage = vscode.window.showErrorMessage;
+		} else if (severity === 'warning') {
+			showMessage = vscode.window.showWarningMessage;
+		} else {
+			showMessage = vscode.window.showInformationMessage;
+		}
+		const choice = await showMessage(message, 'Show Log');
+		if (choice === 'Show Log') {
+			this.extension.showLog();
+		}
+	}
+
+	private checkExportFileName(sources: Sources, exportFileName: string) : string | undefined {
+		// Returns an error message if the file name cannot be used for export
+		for (const source of sources) {
+			if (source.fileName === exportFileName) {
+				return `Export cannot overwrite source file "${path.basename(source.fileName)}"`;
+			}
+		}
+		if (!isSupportedShellFileName(exportFileName)) {
+			return `Cannot export file; invalid or unsupported file name: "${exportFileName}"`;
+		}
+		return undefined;
+	}
+
+	private async exportProfile(sources: Sources, exportProfile: PandocExportProfile) {
+		// Export to all formats in the profile.  Output file names are
+		// determined in advance from the document file name, so there are no
+		// save dialogs.
+
+		// Exports on save and Codebraid runs wait while this is set
+		this.isExporting = true;
+		const results: Map<string, {exportFileName: string | undefined, errorMessage: string | undefined}> = new Map();
+		// Each export either has a build config and file name, or an error
+		// message explaining why it cannot run
+		const exports: Array<{name: string, buildConfig: PandocExportBuildConfig, exportFileName: string | undefined, errorMessage: string | undefined}> = [];
+		try {
+			const documentFileName = this.fileNames[0];
+			let exportFileNameNoExt: string;
+			if (documentFileName.endsWith(this.fileExtension.fullExtension)) {
+				exportFileNameNoExt = documentFileName.slice(0, -this.fileExtension.fullExtension.length);
+			} else if (path.basename(documentFileName).lastIndexOf('.') !== -1) {
+				exportFileNameNoExt = documentFileName.slice(0, documentFileName.lastIndexOf('.'));
+			} else {
+				exportFileNameNoExt = documentFileName;
+			}
+			if (exportProfile.outputDirectory) {
+				const outputDirectory = path.resolve(path.dirname(documentFileName), exportProfile.outputDirectory);
+				exportFileNameNoExt = path.join(outputDirectory, path.basename(exportFileNameNoExt));
+				try {
+					await fs.promises.mkdir(outputDirectory, {recursive: true});
+				} catch (error) {
+					vscode.window.showErrorMessage(`Export profile "${exportProfile.name}" failed to create output directory: ${error}`);
+					return;
+				}
+			}
+
+			const exportFileNames: Set<string> = new Set();
+			for (const exportName of exportProfile.exports) {
+				const buildConfig = this.pandocExportBuildConfigs?.get(exportName);
+				if (!buildConfig) {
+					// Build configs can't change during export, and profiles
+					// are validated against them
+					continue;
+				}
+				let exportFileExtension: string | undefined;
+				if (buildConfig.writer.builtinBase) {
+					exportFileExtension = builtinToFileExtensionMap.get(buildConfig.writer.builtinBase);
+				}
+				if (!exportFileExtension) {
+					exports.push({
+						name: exportName,
+						buildConfig: buildConfig,
+						exportFileName: undefined,
+						errorMessage: `Cannot determine output file extension for format "${buildConfig.writer.name}"`,
+					});
+					continue;
+				}
+				const exportFileName = exportFileNameNoExt + exportFileExtension;
+				let errorMessage = this.checkExportFileName(sources, exportFileName);
+				if (!errorMessage && exportFileNames.has(exportFileName)) {
+					errorMessage = `Output file "${path.basename(exportFileName)}" is already used by another export in the profile`;
+				}
+				exportFileNames.add(exportFileName);
+				exports.push({name: exportName, buildConfig: buildConfig, exportFileName: exportFileName, errorMessage: errorMessage});
+			}
+
+			this.clearExportDiagnostics();
+			this.extension.statusBarConfig.setDocumentExportRunning();
+			await vscode.window.withProgress(
+				{
+					location: vscode.ProgressLocation.Notification,
+					title: `Exporting profile "${exportProfile.name}"`,
+					cancellable: true,
+				},
+				async (progress, token) => {
+					const increment = 100 / exports.length;
+					const runExport = async (exp: typeof exports[number]) => {
+						if (exp.errorMessage || !exp.exportFileName) {
+							results.set(exp.name, {exportFileName: exp.exportFileName, errorMessage: exp.errorMessage});
+							progress.report({increment: increment});
+							return;
+						}
+						if (!exportProfile.parallel) {
+							progress.report({message: exp.name});
+						}
+						const pdfEngine = await this.getPdfEngine(exp.buildConfig, exp.exportFileName, false);
+						if (pdfEngine === null) {
+							results.set(exp.name, {exportFileName: exp.exportFileName, errorMessage: 'PDF engine was not found'});
+							progress.report({increment: increment});
+							return;
+						}
+						const {error, stderr, isCancelled} = await this.exportPandoc(sources, exp.buildConfig, exp.exportFileName, pdfEngine, token);
+						let errorMessage: string | undefined;
+						if (isCancelled) {
+							errorMessage = 'cancelled';
+						} else if (error) {
+							errorMessage = getExportErrorSummary(error, stderr);
+						}
+						results.set(exp.name, {exportFileName: exp.exportFileName, errorMessage: errorMessage});
+						progress.report({increment: increment});
+					};
+					if (exportProfile.parallel) {
+						await Promise.all(exports.map(runExport));
+					} else {
+						for (const exp of exports) {
+							if (!this.panel) {
+								break;
+							}
+							if (token.isCancellationRequested) {
+								results.set(exp.name, {exportFileName: exp.exportFileName, errorMessage: 'cancelled'});
+								continue;
+							}
+							await runExport(exp);
+						}
+					}
+				}
+			);
+		} finally {
+			this.extension.statusBarConfig.setDocumentExportWaiting();
 			this.isExporting = false;
+		}
+		if (!this.panel) {
 			return;
 		}
 
-		this.exportPandoc(sources, pandocExportBuildConfig, exportFileName);
+		const succeeded: Array<string> = [];
+		const failed: Array<string> = [];
+		for (const exp of exports) {
+			const result = results.get(exp.name);
+			if (!result) {
+				continue;
+			}
+			if (result.errorMessage) {
+				failed.push(`${exp.name} failed: ${result.errorMessage}`);
+			} else {
+				succeeded.push(`${exp.name} (${path.basename(result.exportFileName as string)})`);
+			}
+		}
+		if (succeeded.length > 0) {
+			// Only a profile that produced output is repeated
+			this.saveLastExport({exportProfileName: exportProfile.name, exportName: undefined, exportFileName: undefined});
+		}
+		const summary = `Export profile "${exportProfile.name}": ${succeeded.length} of ${exports.length} exports succeeded`;
+		this.extension.log([summary, ...succeeded.map((x) => `  ${x}`), ...failed.map((x) => `  ${x}`)].join('\n'));
+		if (failed.length === 0) {
+			vscode.window.showInformationMessage(`${summary}: ${succeeded.join(', ')}`);
+		} else {
+			this.showExportLogMessage('error', `${summary}.  ${failed.join('.  ')}.`);
+		}
+	}
+
+	async showPandocCommands() {
+		// Show the Pandoc commands for the preview and for an export, as they
+		// would currently run.  Stdin is saved to files, so that the
+		// commands can be copied and run in a terminal.
+		if (!this.pandocPreviewOptions || !this.pandocInfo) {
+			vscode.window.showErrorMessage(
+				'Cannot show Pandoc commands while configuration is updating or is invalid'
+			);
+			return;
+		}
+		const pandocInfo: PandocInfo = this.pandocInfo;
+
+		// The export is the most recent export of the document by default.
+		// Exports with Codebraid are shown as Pandoc exports, since Codebraid
+		// runs Pandoc with the same args.
+		const lastExport = this.getLastExport();
+		const pickItems: Array<vscode.QuickPickItem> = [];
+		const pickedExports: Map<vscode.QuickPickItem, [PandocExportBuildConfig, string | undefined, string | undefined]> = new Map();
+		const lastExportBuildConfig = lastExport?.exportName === undefined ? undefined : this.pandocExportBuildConfigs?.get(lastExport.exportName);
+		if (lastExport?.exportFileName && lastExportBuildConfig) {
+			const pickItem = {label: lastExport.exportName as string, description: `most recent export, to "${path.basename(lastExport.exportFileName)}"`};
+			pickItems.push(pickItem);
+			pickedExports.set(pickItem, [lastExportBuildConfig, lastExport.exportFileName, lastExport.pdfEngine]);
+		}
+		for (const [key, buildConfig] of this.pandocExportBuildConfigs || []) {
+			const pickItem = {label: key, description: buildConfig.isPredefined ? 'predefined' : undefined};
+			pickItems.push(pickItem);
+			pickedExports.set(pickItem, [buildConfig, undefined, undefined]);
+		}
+		pickItems.push({label: 'Preview only'});
+		const picked = await vscode.window.showQuickPick(pickItems, {
+			title: 'Show Pandoc commands',
+			placeHolder: 'Select export format',
+		});
+		if (!picked || !this.panel || !this.pandocPreviewOptions) {
+			return;
+		}
+		let exportBuildConfig: PandocExportBuildConfig | undefined;
+		let exportFileName: string | undefined;
+		let pdfEngine: string | undefined;
+		const pickedExport = pickedExports.get(picked);
+		if (pickedExport) {
+			[exportBuildConfig, exportFileName, pdfEngine] = pickedExport;
+			if (!exportFileName) {
+				const fileName = this.fileNames[0];
+				const fileNameNoExt = fileName.endsWith(this.fileExtension.fullExtension) ? fileName.slice(0, -this.fileExtension.fullExtension.length) : fileName;
+				exportFileName = `${fileNameNoExt}${builtinToFileExtensionMap.get(exportBuildConfig.writer.builtinBase as string) || '.out'}`;
+				pdfEngine = await this.getPdfEngine(exportBuildConfig, exportFileName, false) || undefined;
+			}
+		}
+
+		const previewSources: Sources | undefined = await this.getSources(this.fileNames, this.pandocPreviewOptions.reader);
+		const exportSources: Sources | undefined = exportBuildConfig ? await this.getSources(this.fileNames) : undefined;
+		if (!this.panel || !previewSources || (exportBuildConfig && !exportSources)) {
+			return;
+		}
+		const writer: PandocWriter | undefined = this.getPreviewWriter();
+		const previewOutputFileName: string | undefined = writer?.previewKind === 'roundTrip' ? this.getPreviewOutputFileName(writer) : undefined;
+		const previewCommand = `${pandocInfo.executable} ${this.getPandocPreviewArgs(writer, previewOutputFileName).join(' ')}`;
+		const previewConversionArgs: Array<string> | undefined = this.getPandocPreviewConversionArgs(writer, previewOutputFileName);
+		const [previewStdin] = this.getPandocPreviewStdin(previewSources, writer);
+		let exportCommand: string | undefined;
+		let exportStdin: string | undefined;
+		if (exportBuildConfig && exportSources && exportFileName) {
+			exportCommand = `${pandocInfo.executable} ${this.getPandocExportArgs(exportBuildConfig, exportFileName, pdfEngine).join(' ')}`;
+			exportStdin = this.getPandocExportStdin(exportSources);
+		}
+
+		const stdinDirUri = vscode.Uri.joinPath(vscode.Uri.file(this.cwd), commandStdinDirectory);
+		const previewStdinUri = vscode.Uri.joinPath(stdinDirUri, `${this.cacheKey}_preview.txt`);
+		const exportStdinUri = vscode.Uri.joinPath(stdinDirUri, `${this.cacheKey}_export.txt`);
+		try {
+			await vscode.workspace.fs.createDirectory(stdinDirUri);
+			await vscode.workspace.fs.writeFile(previewStdinUri, Buffer.from(previewStdin, 'utf8'));
+			if (exportStdin !== undefined) {
+				await vscode.workspace.fs.writeFile(exportStdinUri, Buffer.from(exportStdin, 'utf8'));
+			}
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to save Pandoc stdin under "${stdinDirUri.fsPath}":  ${error}`);
+			return;
+		}
+		const previewShellCommand = getShellCommand(this.cwd, pandocInfo.extraEnv, previewCommand, previewStdinUri.fsPath);
+		const exportShellCommand = exportCommand ? getShellCommand(this.cwd, pandocInfo.extraEnv, exportCommand, exportStdinUri.fsPath) : undefined;
+
+		let documentDefaults: string | undefined;
+		if (this.documentPandocDefaultsFile.processedFileName) {
+			try {
+				documentDefaults = Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.file(this.documentPandocDefaultsFile.processedFileName))).toString('utf8');
+			} catch (error) {
+				documentDefaults = `# Failed to read file:  ${error}`;
+			}
+		}
+		const includingCodebraidOutput: boolean = this.usingCodebraid && (this.currentCodebraidOutput.size > 0 || this.oldCodebraidOutput.size > 0);
+		const getDefaultsLines = (buildConfig: PandocPreviewBuildConfig | PandocExportBuildConfig | undefined) : Array<string> => {
+			const defaultsLines: Array<string> = [];
+			if (buildConfig?.defaultsFileName) {
+				defaultsLines.push(`Defaults file \`${buildConfig.defaultsFileName}\`:`, '');
+				defaultsLines.push(textToMarkdownCodeBlock(buildConfig.defaultsAsBytes.toString('utf8'), 'yaml'));
+			}
+			if (documentDefaults !== undefined) {
+				defaultsLines.push(`Document defaults file \`${this.documentPandocDefaultsFile.processedFileName}\`:`, '');
+				defaultsLines.push(textToMarkdownCodeBlock(documentDefaults, 'yaml'));
+			}
+			return defaultsLines;
+		};
+		const getStdinLines = (sources: Sources, hasJsonHeader: boolean) : Array<string> => {
+			const stdinLines: Array<string> = [];
+			if (hasJsonHeader) {
+				stdinLines.push('Stdin JSON header:', '');
+				stdinLines.push(textToMarkdownCodeBlock(this.sourcesToJsonHeader(sources), 'json'));
+			}
+			if (includingCodebraidOutput) {
+				stdinLines.push('Stdin includes Codebraid output as YAML metadata at the start of the document.', '');
+			}
+			return stdinLines;
+		};
+
+		const lines: Array<string> = [
+			`# Pandoc commands for "${path.basename(this.fileNames[0])}"`,
+			'',
+			`* Pandoc:  \`${pandocInfo.executable}\` (version ${pandocInfo.versionString})`,
+			`* Working directory:  \`${this.cwd}\``,
+		];
+		const extraEnvEntries = Object.entries(pandocInfo.extraEnv);
+		if (extraEnvEntries.length === 0) {
+			lines.push('* Environment additions:  none');
+		} else {
+			lines.push('* Environment additions:');
+			for (const [key, value] of extraEnvEntries) {
+				lines.push(`  - \`${key}=${value}\``);
+			}
+		}
+		lines.push('', '## Preview', '');
+		if (this.pandocPreviewBuildConfig) {
+			lines.push(`Build configuration "${this.pandocPreviewBuildConfig.writer.name}" for \`*${this.pandocPreviewBuildConfig.inputFileExtension}\`.`, '');
+		}
+		if (this.extension.pandocServer.isAvailable && !previewConversionArgs) {
+			if (this.usingPreviewReaderWrapper(writer) && this.pandocPreviewOptions.reader?.hasWrapper) {
+				lines.push('Preview builds currently use the Pandoc server, with the same args except that the reader wrapper is not used.', '');
+			} else {
+				lines.push('Preview builds currently use the Pandoc server, with the same args.', '');
+			}
+		}
+		lines.push(textToMarkdownCodeBlock(previewCommand));
+		lines.push(...getStdinLines(previewSources, this.usingPreviewReaderWrapper(writer) && (this.pandocPreviewOptions.reader?.hasWrapper || false)));
+		if (previewConversionArgs) {
+			lines.push(
+				writer?.previewKind === 'text' ? 'Output is converted to HTML as a code block with:' : 'Output is converted to HTML with:',
+				''
+			);
+			lines.push(textToMarkdownCodeBlock(`${pandocInfo.executable} ${previewConversionArgs.join(' ')}`));
+		}
+		lines.push(...getDefaultsLines(this.pandocPreviewBuildConfig));
+		lines.push('Shell command:', '');
+		lines.push(textToMarkdownCodeBlock(previewShellCommand, isWindows ? 'bat' : 'sh'));
+		if (exportBuildConfig && exportSources && exportCommand && exportShellCommand) {
+			lines.push(`## Export to "${path.basename(exportFileName as string)}"`, '');
+			lines.push(`Build configuration "${exportBuildConfig.writer.name}" for \`*${exportBuildConfig.inputFileExtension}\`.`, '');
+			lines.push(textToMarkdownCodeBlock(exportCommand));
+			lines.push(...getStdinLines(exportSources, (pandocInfo.supportsCodebraidWrappers && this.pandocPreviewOptions.reader?.hasWrapper) || false));
+			lines.push(...getDefaultsLines(exportBuildConfig));
+			lines.push('Shell command:', '');
+			lines.push(textToMarkdownCodeBlock(exportShellCommand, isWindows ? 'bat' : 'sh'));
+		}
+		const document = await vscode.workspace.openTextDocument({language: 'markdown', content: lines.join('\n')});
+		await vscode.window.showTextDocument(document, {preview: true});
+
+		const copyActions: Array<string> = ['Copy Preview Shell Command'];
+		if (exportShellCommand) {
+			copyActions.push('Copy Export Shell Command');
+		}
+		const copyAction = await vscode.window.showInformationMessage(
+			`Stdin for the shell commands is saved under "${commandStdinDirectory}"`,
+			...copyActions
+		);
+		if (copyAction === 'Copy Preview Shell Command') {
+			await vscode.env.clipboard.writeText(previewShellCommand);
+		} else if (copyAction === 'Copy Export Shell Command' && exportShellCommand) {
+			await vscode.env.clipboard.writeText(exportShellCommand);
+		}
+	}
+
+	private async exportCodebraid(
+		sources: Sources,
+		pandocExportBuildConfig: PandocExportBuildConfig | undefined,
+		exportFileName: string,
+		pdfEngine: string | undefined,
+		cancellationToken?: vscode.CancellationToken
+	) : Promise<PandocExportResult> {
+		await this.setCodebraidCommand();
+		if (!this.codebraidCommand) {
+			const error: child_process.ExecFileException = new Error('Codebraid is not available');
+			return {exportFileName: exportFileName, error: error, stderr: '', isCancelled: false};
+		}
+		const executable: string = this.codebraidCommand[0];
+		const args: Array<string> = this.codebraidCommand.slice(1);
+		args.push('pandoc', '--stdin-json-header');
+		args.push(...this.getPandocExportArgs(pandocExportBuildConfig, exportFileName, pdfEngine, 'codebraid'));
+
+		const startTime = Date.now();
+		let isCancelled = false;
+		const stderrBuffer: Array<string> = [];
+		const exitStatus: number | string = await new Promise<number | string>((resolve) => {
+			const codebraidProcess = child_process.spawn(
+				executable,
+				args,
+				{...this.codebraidProcessOptions, env: {...process.env, ...this.pandocInfo?.extraEnv}}
+			);
+			const cancellationListener = cancellationToken?.onCancellationRequested(() => {
+				isCancelled = true;
+				killProcessTree(codebraidProcess);
+			});
+			codebraidProcess.stdin?.setDefaultEncoding('utf8');
+			codebraidProcess.stderr?.setEncoding('utf8');
+			codebraidProcess.on('close', (exitCode: number) => {
+				cancellationListener?.dispose();
+				resolve(exitCode);
+			});
+			codebraidProcess.on('error', (error: any) => {
+				cancellationListener?.dispose();
+				resolve(`${error}`);
+			});
+			codebraidProcess.stderr?.on('data', (data: string) => {
+				stderrBuffer.push(data);
+			});
+			codebraidProcess.stdin?.on('error', (error: any) => {
+				if (!isCancelled) {
+					this.extension.log(`Failed to write to Codebraid process:\n${error}`);
+				}
+			});
+			const stdinOrigins: Array<{path: string, lines: number}> = [];
+			for (const source of sources) {
+				stdinOrigins.push({path: source.fileName, lines: source.totalTextLines});
+			}
+			codebraidProcess.stdin?.write(JSON.stringify({origins: stdinOrigins}));
+			codebraidProcess.stdin?.write('\n');
+			for (const source of sources) {
+				codebraidProcess.stdin?.write(source.fileText);
+				if (source.endPaddingText) {
+					codebraidProcess.stdin?.write(source.endPaddingText);
+				}
+			}
+			codebraidProcess.stdin?.end();
+		});
+
+		const stderr = stderrBuffer.join('');
+		if (!isCancelled && this.isPdfExport(pandocExportBuildConfig, exportFileName)) {
+			this.setExportDiagnostics(sources, stderr);
+		}
+		let error: child_process.ExecFileException | null = null;
+		let status: string;
+		if (isCancelled) {
+			status = 'cancelled';
+		} else if (typeof(exitStatus) === 'string') {
+			error = new Error(exitStatus);
+			status = `failed (${exitStatus})`;
+		} else if (exitStatus > 0 && exitStatus < 4) {
+			error = new Error(`Codebraid process failed with exit code ${exitStatus}`);
+			error.code = exitStatus;
+			status = `failed (exit code ${exitStatus})`;
+		} else {
+			// Other nonzero exit codes indicate errors in executed code, which
+			// are included in the exported document
+			status = exitStatus === 0 ? 'succeeded' : `succeeded with errors in executed code (exit code ${exitStatus})`;
+		}
+		this.extension.log([
+			`Codebraid export to "${exportFileName}" ${status}`,
+			`  Command: ${executable} ${args.join(' ')}`,
+			`  Time: ${((Date.now() - startTime) / 1000).toFixed(1)} s`,
+			stderr ? `  stderr:\n${stderr.trimEnd()}` : '  stderr: (none)',
+		].join('\n'));
+		return {exportFileName: exportFileName, error: error, stderr: stderr, isCancelled: isCancelled};
 	}
 
-	private exportPandoc(sources: Sources, pandocExportBuildConfig: PandocExportBuildConfig | undefined, exportFileName: string) {
+	private exportPandoc(
+		sources: Sources,
+		pandocExportBuildConfig: PandocExportBuildConfig | undefined,
+		exportFileName: string,
+		pdfEngine: string | undefined,
+		cancellationToken?: vscode.CancellationToken
+	) : Promise<PandocExportResult> {
+		// `this.pandocInfo` is checked in `export()`, and config is
+		// locked during export, so the fallback value shouldn't ever be used
+		const executable: string = this.pandocInfo?.executable || 'pandoc';
+		const args: Array<string> = this.getPandocExportArgs(pandocExportBuildConfig, exportFileName, pdfEngine);
+
+		let resolveResult: (result: PandocExportResult) => void;
+		const result = new Promise<PandocExportResult>((resolve) => {
+			resolveResult = resolve;
+		});
+		const startTime = Date.now();
+		let isCancelled = false;
+		let cancellationListener: vscode.Disposable | undefined;
+		const buildProcess = child_process.execFile(
+			executable,
+			args,
+			{...this.buildProcessOptions, env: {...process.env, ...this.pandocInfo?.extraEnv}},
+			(error, stdout, stderr) => {
+				cancellationListener?.dispose();
+				let status: string;
+				if (isCancelled) {
+					status = 'cancelled';
+				} else if (error) {
+					status = `failed (${error.code !== undefined ? `exit code ${error.code}` : error.message})`;
+				} else {
+					status = 'succeeded';
+				}
+				this.extension.log([
+					`Pandoc export to "${exportFileName}" ${status}`,
+					`  Command: ${executable} ${args.join(' ')}`,
+					`  Time: ${((Date.now() - startTime) / 1000).toFixed(1)} s`,
+					stderr ? `  stderr:\n${stderr.trimEnd()}` : '  stderr: (none)',
+				].join('\n'));
+				if (!isCancelled && this.isPdfExport(pandocExportBuildConfig, exportFileName)) {
+					this.setExportDiagnostics(sources, stderr);
+				}
+				resolveResult({exportFileName: exportFileName, error: error, stderr: stderr, isCancelled: isCancelled});
+			}
+		);
+		if (cancellationToken) {
+			// Export runs in a process group, so this also kills any LaTeX
+			// or other processes started by Pandoc
+			cancellationListener = cancellationToken.onCancellationRequested(() => {
+				isCancelled = true;
+				killProcessTree(buildProcess);
+			});
+		}
+
+		buildProcess.stdin?.end(this.getPandocExportStdin(sources));
+		return result;
+	}
+
+	private getPandocExportArgs(
+		pandocExportBuildConfig: PandocExportBuildConfig | undefined,
+		exportFileName: string,
+		pdfEngine: string | undefined,
+		runner: 'pandoc' | 'codebraid' = 'pandoc'
+	) : Array<string> {
+		// Codebraid runs Pandoc itself, so it takes the same arguments except
+		// that it doesn't need the Codebraid output filter and has its own
+		// reader/writer and file scope syntax
 		const reader: PandocReader | undefined = this.pandocPreviewOptions?.reader;
 		// Writer is either from chosen build config or from file extension;
 		// any writer in document defaults file is ignored.
@@ -2368,9 +4543,6 @@ ${this.convertStringToLiteralHtml(html)}
 			fileScope = pandocExportBuildConfig.optionsFileScope;
 		}
 
-		// `this.pandocInfo` is checked in `export()`, and config is
-		// locked during export, so the fallback value shouldn't ever be used
-		const executable: string = this.pandocInfo?.executable || 'pandoc';
 		const args: Array<string> = [];
 		if (pandocExportBuildConfig?.defaultsFileName) {
 			// This needs quoting, since it involves an absolute path
@@ -2384,14 +4556,21 @@ ${this.convertStringToLiteralHtml(html)}
 			args.push('--defaults', `"${this.documentPandocDefaultsFile.processedFileName}"`);
 		}
 		args.push(...this.pandocExportArgs);
-		if (this.usingCodebraid) {
+		if (this.usingCodebraid && runner === 'pandoc') {
 			args.push(...this.pandocWithCodebraidOutputArgs);
 		}
 		// Reader and writer don't need quoting, since they are either builtin
 		// (`^[0-9a-z_+-]+$`) or are custom from `settings.json` (and thus
 		// require any quoting by the user).  Readers/writers in preview
 		// defaults file are only extracted and used here if they are builtin.
-		if (reader) {
+		if (runner === 'codebraid') {
+			if (reader) {
+				args.push('--from', reader.asCodebraidArg);
+			}
+			if (fileScope) {
+				args.push('--file-scope');
+			}
+		} else if (reader) {
 			if (this.extension.pandocInfo?.supportsCodebraidWrappers) {
 				if (fileScope && reader.canFileScope && !reader.hasExtensionsFileScope) {
 					// Any incompatibilities have already resulted in error
@@ -2408,51 +4587,19 @@ ${this.convertStringToLiteralHtml(html)}
 			// If a writer isn't specified, Pandoc may still be able to
 			// proceed based on file extension of output; otherwise, it will
 			// give an error
-			args.push('--to', writer.asArg);
+			args.push('--to', runner === 'codebraid' ? writer.asCodebraidArg : writer.asArg);
+		}
+		if (pdfEngine) {
+			args.push(`--pdf-engine=${pdfEngine}`);
 		}
 		args.push('--output', `"${exportFileName}"`);
+		return args;
+	}
 
-		this.extension.statusBarConfig.setDocumentExportRunning();
-		const buildProcess = child_process.execFile(
-			executable,
-			args,
-			{...this.buildProcessOptions, env: {...process.env, ...this.pandocInfo?.extraEnv}},
-			(error, stdout, stderr) => {
-				this.extension.statusBarConfig.setDocumentExportWaiting();
-				this.isExporting = false;
-				if (!this.panel) {
-					return;
-				}
-				if (error) {
-					vscode.window.showErrorMessage(`Pandoc export failed: ${error}`);
-					this.extension.log(`Pandoc export failed: ${error}`);
-				} else if (stderr) {
-					if (stderr.toLowerCase().indexOf('error') !== -1) {
-						vscode.window.showErrorMessage(`Pandoc export stderr: ${stderr}`);
-					} else if (stderr.toLowerCase().indexOf('warning') !== -1){
-						vscode.window.showWarningMessage(`Pandoc export stderr: ${stderr}`);
-					} else {
-						vscode.window.showInformationMessage(`Pandoc export stderr: ${stderr}`);
-					}
-					this.extension.log(`Pandoc export stderr: ${stderr}`);
-				}
-				if (!error) {
-					if (path.basename(exportFileName).lastIndexOf('.') !== -1) {
-						const extIndex = exportFileName.lastIndexOf('.');
-						this.lastExportFileNameNoExt = exportFileName.slice(0, extIndex);
-						this.lastExportFileExtension = exportFileName.slice(extIndex);
-						this.lastExportWriterName = writer?.name;
-					} else {
-						this.lastExportFileNameNoExt = exportFileName;
-						this.lastExportFileExtension = undefined;
-						this.lastExportWriterName = writer?.name;
-					}
-				}
-			}
-		);
-
-		if (this.extension.pandocInfo?.supportsCodebraidWrappers && reader?.hasWrapper) {
-			buildProcess.stdin?.write(this.sourcesToJsonHeader(sources));
+	private getPandocExportStdin(sources: Sources) : string {
+		const stdinChunks: Array<string> = [];
+		if (this.extension.pandocInfo?.supportsCodebraidWrappers && this.pandocPreviewOptions?.reader?.hasWrapper) {
+			stdinChunks.push(this.sourcesToJsonHeader(sources));
 		}
 		let includingCodebraidOutput: boolean;
 		if (this.usingCodebraid && (this.currentCodebraidOutput.size > 0 || this.oldCodebraidOutput.size > 0)) {
@@ -2461,18 +4608,18 @@ ${this.convertStringToLiteralHtml(html)}
 			includingCodebraidOutput = false;
 		}
 		if (includingCodebraidOutput) {
-			buildProcess.stdin?.write([
+			stdinChunks.push([
 				`---`,
 				`codebraid_meta:`,
-				`  commonmark: ${reader?.isCommonmark || false}`,
+				`  commonmark: ${this.pandocPreviewOptions?.reader?.isCommonmark || false}`,
 				`codebraid_output:\n`,
 			].join('\n'));
 			let keySet = new Set();
 			if (this.currentCodebraidOutput.size > 0) {
 				for (const [key, yamlArray] of this.currentCodebraidOutput) {
-					buildProcess.stdin?.write(`  "${key}":\n`);
+					stdinChunks.push(`  "${key}":\n`);
 					for (const yaml of yamlArray) {
-						buildProcess.stdin?.write(yaml);
+						stdinChunks.push(yaml);
 					}
 					keySet.add(key);
 				}
@@ -2482,9 +4629,9 @@ ${this.convertStringToLiteralHtml(html)}
 					if (keySet.has(key)) {
 						continue;
 					}
-					buildProcess.stdin?.write(`  "${key}":\n`);
+					stdinChunks.push(`  "${key}":\n`);
 					for (const yaml of yamlArray) {
-						buildProcess.stdin?.write(yaml);
+						stdinChunks.push(yaml);
 					}
 				}
 			}
@@ -2492,19 +4639,19 @@ ${this.convertStringToLiteralHtml(html)}
 		for (const source of sources) {
 			if (source.index === 0 && includingCodebraidOutput) {
 				if (yamlMetadataRegex.test(source.fileText)) {
-					buildProcess.stdin?.write(source.fileText.slice(source.fileText.indexOf('\n') + 1));
+					stdinChunks.push(source.fileText.slice(source.fileText.indexOf('\n') + 1));
 				} else {
-					buildProcess.stdin?.write('---\n\n');
-					buildProcess.stdin?.write(source.fileText);
+					stdinChunks.push('---\n\n');
+					stdinChunks.push(source.fileText);
 				}
 			} else {
-				buildProcess.stdin?.write(source.fileText);
+				stdinChunks.push(source.fileText);
 			}
 			if (source.endPaddingText) {
-				buildProcess.stdin?.write(source.endPaddingText);
+				stdinChunks.push(source.endPaddingText);
 			}
 		}
-		buildProcess.stdin?.end();
+		return stdinChunks.join('');
 	}
 
 }
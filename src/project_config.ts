@@ -0,0 +1,287 @@
+// Copyright (c) 2024, Geoffrey M. Poore
+// All rights reserved.
+//
+// Licensed under the BSD 3-Clause License:
+// http://opensource.org/licenses/BSD-3-Clause
+//
+
+
+// Project configuration file:  A `codebraid-preview.yaml` at the root of a
+// workspace folder can define build configurations under `build`, using the
+// same schema as the setting `codebraid.preview.pandoc.build`.  The file is
+// intended to be checked into version control, so that build configurations
+// are shared by everyone working on a project.
+//
+// VS Code validates settings against `package.json`, but there is no schema
+// validation for the project file.  Problems are reported as diagnostics,
+// located by the key path of the invalid value.
+
+
+import * as vscode from 'vscode';
+
+import * as yaml from 'js-yaml';
+
+import CodebraidPreviewError from './err';
+
+
+export const projectConfigFileName = 'codebraid-preview.yaml';
+
+// This is a copy of `package.json: codebraid.preview.pandoc.build` regex for
+// file extension keys
+export const buildKeyRegex = /^\*(?:\.[0-9a-z_]+(?:[+-][0-9a-z_]+)*)?\.[0-9a-z_]+$/;
+const projectConfigKeys = new Set(['build']);
+
+
+export type ConfigKeyPath = Array<string | number>;
+
+export class ProjectConfigFile {
+	uri: vscode.Uri;
+	text: string;
+	// Undefined when the file cannot be loaded, so that the last valid state
+	// can be used instead
+	build: {[key: string]: any} | undefined;
+	diagnostics: Array<vscode.Diagnostic>;
+
+	constructor(uri: vscode.Uri, text: string) {
+		this.uri = uri;
+		this.text = text;
+		this.diagnostics = [];
+
+		let data: any;
+		try {
+			data = yaml.load(text, {filename: uri.fsPath});
+		} catch (error) {
+			if (error instanceof yaml.YAMLException) {
+				const position = new vscode.Position(error.mark.line, error.mark.column);
+				this.diagnostics.push(this.newDiagnostic(`Invalid YAML:  ${error.reason}`, new vscode.Range(position, position)));
+				return;
+			}
+			throw error;
+		}
+		if (data === undefined || data === null) {
+			this.build = {};
+			return;
+		}
+		if (typeof(data) !== 'object' || Array.isArray(data)) {
+			this.addError('Project configuration must be a mapping', []);
+			return;
+		}
+		for (const key of Object.keys(data)) {
+			if (!projectConfigKeys.has(key)) {
+				this.addError(`Unknown key "${key}"`, [key], vscode.DiagnosticSeverity.Warning);
+			}
+		}
+		const maybeBuild = data.build;
+		if (maybeBuild === undefined || maybeBuild === null) {
+			this.build = {};
+			return;
+		}
+		if (typeof(maybeBuild) !== 'object' || Array.isArray(maybeBuild)) {
+			this.addError('Invalid value for "build"; this must be a mapping of file extensions (like "*.md") to build configurations', ['build']);
+			return;
+		}
+		this.build = {};
+		for (const [key, value] of Object.entries(maybeBuild)) {
+			if (!buildKeyRegex.test(key)) {
+				this.addError(`Invalid file extension "${key}" under "build"; this must have a form like "*.md" (quoted in YAML)`, ['build', key]);
+				continue;
+			}
+			this.build[key] = value;
+		}
+	}
+
+	get fileName() : string {
+		return vscode.workspace.asRelativePath(this.uri);
+	}
+
+	addError(message: string, keyPath: ConfigKeyPath, severity?: vscode.DiagnosticSeverity) {
+		this.diagnostics.push(this.newDiagnostic(message, findYamlKeyPathRange(this.text, keyPath), severity));
+	}
+
+	private newDiagnostic(message: string, range: vscode.Range, severity?: vscode.DiagnosticSeverity) : vscode.Diagnostic {
+		const diagnostic = new vscode.Diagnostic(range, message, severity === undefined ? vscode.DiagnosticSeverity.Error : severity);
+		diagnostic.source = 'Codebraid Preview';
+		return diagnostic;
+	}
+}
+
+
+export async function readProjectConfigFiles() : Promise<Array<ProjectConfigFile>> {
+	// Project files are read from the root of each workspace folder, in
+	// workspace folder order
+	const projectConfigFiles: Array<ProjectConfigFile> = [];
+	if (!vscode.workspace.workspaceFolders) {
+		return projectConfigFiles;
+	}
+	for (const workspaceFolder of vscode.workspace.workspaceFolders) {
+		const uri = vscode.Uri.joinPath(workspaceFolder.uri, projectConfigFileName);
+		let bytes: Uint8Array;
+		try {
+			bytes = await vscode.workspace.fs.readFile(uri);
+		} catch {
+			continue;
+		}
+		projectConfigFiles.push(new ProjectConfigFile(uri, Buffer.from(bytes).toString('utf8')));
+	}
+	return projectConfigFiles;
+}
+
+export function isProjectConfigFile(uri: vscode.Uri) : boolean {
+	const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+	if (!workspaceFolder) {
+		return false;
+	}
+	return uri.toString() === vscode.Uri.joinPath(workspaceFolder.uri, projectConfigFileName).toString();
+}
+
+
+type YamlNode = {
+	line: number,
+	// Last line (exclusive) that can contain content belonging to the node
+	end: number,
+	// For list items, content starts on the same line as the item
+	isListItem: boolean,
+	range: vscode.Range,
+};
+
+const yamlIgnoredLineRegex = /^\s*(?:#.*)?$/;
+const yamlListItemRegex = /^(\s*)-(?:\s+|$)/;
+
+function yamlContentColumn(line: string) : number {
+	// Column of content, treating list item indicators as indentation
+	return line.match(/^(?:\s*-(?=\s|$))*\s*/)?.[0].length as number;
+}
+
+export function findYamlKeyPathRange(text: string, keyPath: ConfigKeyPath) : vscode.Range {
+	// Find the location of a value in YAML text, based on indentation.  This
+	// supports block-style mappings and lists.  When a key path can't be
+	// located completely (for example, within flow-style collections), the
+	// location of the last key that was found is used.
+	const lines = text.split(/\r?\n/);
+	let node: YamlNode = {line: -1, end: lines.length, isListItem: false, range: new vscode.Range(0, 0, 0, 0)};
+	for (const key of keyPath) {
+		const start = node.isListItem ? node.line : node.line + 1;
+		let childNode: YamlNode | undefined;
+		if (typeof(key) === 'string') {
+			const escapedKey = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+			const keyRegex = new RegExp(`^(?:"${escapedKey}"|'${escapedKey}'|${escapedKey})\\s*:(?=\\s|$)`);
+			let childColumn: number | undefined;
+			for (let index = start; index < node.end; index++) {
+				const line = lines[index];
+				if (yamlIgnoredLineRegex.test(line)) {
+					continue;
+				}
+				const column = yamlContentColumn(line);
+				if (childColumn === undefined) {
+					childColumn = column;
+				} else if (column < childColumn) {
+					break;
+				}
+				if (column !== childColumn) {
+					continue;
+				}
+				const keyMatch = line.slice(column).match(keyRegex);
+				if (!keyMatch) {
+					continue;
+				}
+				let end = index + 1;
+				while (end < node.end && (yamlIgnoredLineRegex.test(lines[end]) || yamlContentColumn(lines[end]) > column)) {
+					end += 1;
+				}
+				childNode = {
+					line: index,
+					end: end,
+					isListItem: false,
+					range: new vscode.Range(index, column, index, column + keyMatch[0].length - 1),
+				};
+				break;
+			}
+		} else {
+			let itemColumn: number | undefined;
+			let itemIndex = -1;
+			for (let index = start; index < node.end; index++) {
+				const line = lines[index];
+				if (yamlIgnoredLineRegex.test(line)) {
+					continue;
+				}
+				const itemMatch = line.match(yamlListItemRegex);
+				if (!itemMatch) {
+					continue;
+				}
+				const column = itemMatch[1].length;
+				if (itemColumn === undefined) {
+					itemColumn = column;
+				} else if (column !== itemColumn) {
+					continue;
+				}
+				itemIndex += 1;
+				if (itemIndex !== key) {
+					continue;
+				}
+				let end = index + 1;
+				while (end < node.end) {
+					const nextItemMatch = lines[end].match(yamlListItemRegex);
+					if (nextItemMatch && nextItemMatch[1].length <= column) {
+						break;
+					}
+					if (!yamlIgnoredLineRegex.test(lines[end]) && !nextItemMatch && yamlContentColumn(lines[end]) <= column) {
+						break;
+					}
+					end += 1;
+				}
+				childNode = {
+					line: index,
+					end: end,
+					isListItem: true,
+					range: new vscode.Range(index, column, index, line.trimEnd().length),
+				};
+				break;
+			}
+		}
+		if (!childNode) {
+			break;
+		}
+		node = childNode;
+	}
+	return node.range;
+}
+
+
+const yamlBuildKeyLineRegex = /^(?:"build"|'build'|build)\s*:(?=\s|$)/;
+const yamlCommentRegex = /(?:^|\s)#/;
+
+export function replaceProjectConfigBuild(text: string, build: any) : string {
+	// Replace only the top-level `build` node in project configuration file
+	// text, so that the rest of the file (including comments and
+	// formatting) is unchanged.  Comments within `build` can't be preserved,
+	// so files with them are not modified.
+	const newline = text.includes('\r\n') ? '\r\n' : '\n';
+	const buildLines = yaml.dump({build: build}, {lineWidth: -1}).trimEnd().split('\n');
+	const lines = text.split(/\r?\n/);
+	const start = lines.findIndex((line) => yamlBuildKeyLineRegex.test(line));
+	if (start === -1) {
+		const data: any = yaml.load(text);
+		if (data !== undefined && data !== null && data.build !== undefined) {
+			throw new CodebraidPreviewError(`"${projectConfigFileName}" defines "build" in a form that can't be edited; edit the file directly`);
+		}
+		if (lines.at(-1) === '') {
+			lines.pop();
+		}
+		return [...lines, ...buildLines, ''].join(newline);
+	}
+	// The node continues until the next content at the top level.  Blank and
+	// comment lines preceding that content are kept outside the node.
+	let end = start + 1;
+	while (end < lines.length && (yamlIgnoredLineRegex.test(lines[end]) || /^\s/.test(lines[end]))) {
+		end += 1;
+	}
+	while (end > start + 1 && (lines[end - 1].trim() === '' || /^#/.test(lines[end - 1]))) {
+		end -= 1;
+	}
+	for (let index = start; index < end; index++) {
+		if (yamlCommentRegex.test(lines[index])) {
+			throw new CodebraidPreviewError(`"${projectConfigFileName}" has comments under "build", which would be lost; edit the file directly`);
+		}
+	}
+	return [...lines.slice(0, start), ...buildLines, ...lines.slice(end)].join(newline);
+}
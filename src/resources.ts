@@ -11,6 +11,8 @@ export const resourceRoots: Array<string> = [
 	'scripts',
 	'node_modules/katex/dist',
 	'node_modules/@vscode/codicons/dist',
+	'node_modules/reveal.js/dist',
+	'node_modules/reveal.js/plugin',
 ];
 
 
@@ -20,6 +22,9 @@ export const webviewResources: {[key: string]: string} = {
     vscodeCss: 'media/vscode-markdown.css',
     codebraidCss: 'media/codebraid-preview.css',
     codebraidPreviewJs: 'scripts/codebraid-preview.js',
+    buildConfigEditorCss: 'media/build-config-editor.css',
+    buildConfigEditorJs: 'scripts/build-config-editor.js',
+    revealjs: 'node_modules/reveal.js',
 };
 
 
@@ -27,5 +32,6 @@ export const pandocResources: {[key: string]: string} = {
     sourceposSyncFilter: 'pandoc/filters/sourcepos_sync.lua',
     showRawFilter: 'pandoc/filters/show_raw.lua',
     codebraidOutputFilter: 'pandoc/filters/codebraid_output.lua',
+    slideOutlineFilter: 'pandoc/filters/slide_outline.lua',
     readersRoot: 'pandoc/readers',
 };
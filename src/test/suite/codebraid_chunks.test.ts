@@ -0,0 +1,135 @@
+import * as assert from 'assert';
+
+import {
+	findCodebraidChunks,
+	disableCodebraidChunks,
+	getCodebraidCollectionTexts,
+	findCodebraidChunkErrors,
+	findCodebraidErrorLine,
+} from '../../codebraid_chunks';
+
+const documentText = [
+	'```{.python .cb-run session=a}',
+	'x = 1',
+	'```',
+	'',
+	'Inline `x`{.python .cb-expr session=a} and `y`{.python .cb-code}.',
+	'',
+	'````',
+	'```{.python .cb-run}',
+	'not a chunk',
+	'```',
+	'````',
+	'',
+	'~~~{.python .cb.run session="a"}',
+	'print(x)',
+	'~~~',
+].join('\n');
+
+suite('Codebraid Chunks Test Suite', () => {
+	test('Find chunks and their code collections', () => {
+		const chunks = findCodebraidChunks([{fileName: 'doc.md', fileText: documentText}], false, new Map());
+		assert.deepStrictEqual(
+			chunks.map((chunk) => [chunk.key, chunk.index, chunk.startLine, chunk.endLine, chunk.isInline, chunk.isSession]),
+			[
+				['session.python.a', 1, 0, 2, false, true],
+				['session.python.a', 2, 4, 4, true, true],
+				['source.python.', 1, 4, 4, true, false],
+				['session.python.a', 3, 12, 14, false, true],
+			]
+		);
+	});
+
+	test('Ignore period class syntax for commonmark', () => {
+		const chunks = findCodebraidChunks([{fileName: 'doc.md', fileText: documentText}], true, new Map());
+		assert.deepStrictEqual(chunks.map((chunk) => chunk.startLine), [0, 4, 4]);
+	});
+
+	test('Use placeholder langs for chunks without a lang', () => {
+		const chunks = findCodebraidChunks(
+			[{fileName: 'doc.md', fileText: '```{.cb-run}\nx\n```\n'}],
+			false,
+			new Map([['0', 'python']])
+		);
+		assert.deepStrictEqual(chunks.map((chunk) => chunk.key), ['session.python.']);
+	});
+
+	test('Number chunks across sources', () => {
+		const chunks = findCodebraidChunks(
+			[{fileName: 'a.md', fileText: '`1`{.python .cb-expr}'}, {fileName: 'b.md', fileText: '`2`{.python .cb-expr}'}],
+			false,
+			new Map()
+		);
+		assert.deepStrictEqual(chunks.map((chunk) => [chunk.fileName, chunk.sourceIndex, chunk.index]), [['a.md', 0, 1], ['b.md', 1, 2]]);
+	});
+
+	test('Disable chunks without changing lines', () => {
+		const sources = [{fileName: 'doc.md', fileText: documentText}];
+		const chunks = findCodebraidChunks(sources, false, new Map());
+		const [text] = disableCodebraidChunks(sources, chunks.filter((chunk) => chunk.index !== 1));
+		const lines = text.split('\n');
+		assert.strictEqual(lines.length, documentText.split('\n').length);
+		assert.strictEqual(lines[0], '```{.python .cb-run session=a}');
+		assert.strictEqual(lines[4], 'Inline `x`{.python .disabled-cb-expr session=a} and `y`{.python .cb-code}.');
+		assert.strictEqual(lines[12], '~~~{.python .disabled-cb.run session="a"}');
+		assert.deepStrictEqual(
+			findCodebraidChunks([{fileName: 'doc.md', fileText: text}], false, new Map()).map((chunk) => chunk.startLine),
+			[0, 4]
+		);
+	});
+
+	test('Collect text for each code collection', () => {
+		const sources = [{fileName: 'doc.md', fileText: documentText}];
+		const texts = getCodebraidCollectionTexts(sources, findCodebraidChunks(sources, false, new Map()));
+		assert.deepStrictEqual(Array.from(texts.keys()), ['session.python.a', 'source.python.']);
+		assert.strictEqual(
+			texts.get('session.python.a'),
+			[
+				'```{.python .cb-run session=a}',
+				'x = 1',
+				'```',
+				'`x`{.python .cb-expr session=a}',
+				'~~~{.python .cb.run session="a"}',
+				'print(x)',
+				'~~~',
+			].join('\n')
+		);
+	});
+
+	test('Find errors and stderr in code blocks', () => {
+		const errors = findCodebraidChunkErrors([
+			[
+				'``` {.python .stdout}',
+				'ok',
+				'```',
+				'',
+				'```` {.error}',
+				'Traceback (most recent call last):',
+				'```',
+				'ZeroDivisionError: division by zero',
+				'````',
+			].join('\n'),
+			'~~~ {.stderr}\nwarning\n~~~\n',
+		]);
+		assert.deepStrictEqual(errors, [
+			{isStderr: false, text: 'Traceback (most recent call last):\n```\nZeroDivisionError: division by zero'},
+			{isStderr: true, text: 'warning'},
+		]);
+	});
+
+	test('Find errors in inline code', () => {
+		const errors = findCodebraidChunkErrors(['`NameError: x`{.error} and `2`{.expr}']);
+		assert.deepStrictEqual(errors, [{isStderr: false, text: 'NameError: x'}]);
+	});
+
+	test('Find error line for the document', () => {
+		const text = [
+			'Traceback (most recent call last):',
+			'  File "/path/to/doc.md", line 5, in <module>',
+			'  File "other.py", line 20, in f',
+			'  File "doc.md", line 9, in g',
+		].join('\n');
+		assert.strictEqual(findCodebraidErrorLine(text, '/another/path/doc.md'), 8);
+		assert.strictEqual(findCodebraidErrorLine(text, 'missing.md'), undefined);
+	});
+});
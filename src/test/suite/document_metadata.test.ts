@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+
+import { readDocumentMetadata } from '../../document_metadata';
+
+suite('Document Metadata Test Suite', () => {
+	test('Read settings from front matter', () => {
+		const metadata = readDocumentMetadata('---\ntitle: Doc\ncodebraid_preview:\n  run_on_save: true\n...\n\nText\n');
+		assert.strictEqual(metadata.runOnSave, true);
+		assert.strictEqual(readDocumentMetadata('---\r\ncodebraid_preview:\r\n  run_on_save: false\r\n---\r\n').runOnSave, false);
+	});
+
+	test('Read build configuration names', () => {
+		const metadata = readDocumentMetadata('---\ncodebraid_preview:\n  preview: slides\n  export: [PDF, 1, Word]\n---\n');
+		assert.strictEqual(metadata.preview, 'slides');
+		assert.deepStrictEqual(metadata.export, ['PDF', 'Word']);
+		assert.deepStrictEqual(readDocumentMetadata('---\ncodebraid_preview:\n  export: PDF\n---\n').export, ['PDF']);
+		assert.strictEqual(readDocumentMetadata('---\ncodebraid_preview:\n  preview: [html]\n---\n').preview, undefined);
+	});
+
+	test('Ignore missing, invalid, and misplaced metadata', () => {
+		const empty = {runOnSave: undefined, preview: undefined, export: undefined};
+		assert.deepStrictEqual(readDocumentMetadata('Text\n'), empty);
+		assert.deepStrictEqual(readDocumentMetadata('---\n---\n'), empty);
+		assert.deepStrictEqual(readDocumentMetadata('---\ncodebraid_preview: [\n---\n'), empty);
+		assert.deepStrictEqual(readDocumentMetadata('---\ncodebraid_preview: true\n---\n'), empty);
+		assert.deepStrictEqual(readDocumentMetadata('---\ncodebraid_preview:\n  run_on_save: yes please\n---\n'), empty);
+		assert.deepStrictEqual(readDocumentMetadata('Text\n\n---\ncodebraid_preview:\n  run_on_save: true\n---\n'), empty);
+	});
+});
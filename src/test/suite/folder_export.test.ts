@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { readManifest, writeManifest } from '../../folder_export';
+import type { FolderExportManifest } from '../../folder_export';
+
+suite('Folder Export Test Suite', () => {
+	let tempDirectory: string;
+
+	setup(async () => {
+		tempDirectory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'codebraid-preview-test-'));
+	});
+
+	teardown(async () => {
+		await fs.promises.rm(tempDirectory, {recursive: true, force: true});
+	});
+
+	test('Write and read the export record', async () => {
+		const outputDirectory = path.join(tempDirectory, 'output');
+		const manifest: FolderExportManifest = {version: 1, exports: {}};
+		manifest.exports['sub/doc.md'] = {exportName: 'PDF', hash: 'abc', output: 'sub/doc.pdf'};
+		await writeManifest(outputDirectory, manifest);
+		assert.deepStrictEqual(await readManifest(outputDirectory), manifest);
+	});
+
+	test('Start over with a missing or invalid export record', async () => {
+		const empty: FolderExportManifest = {version: 1, exports: {}};
+		assert.deepStrictEqual(await readManifest(path.join(tempDirectory, 'missing')), empty);
+		const manifestFileName = path.join(tempDirectory, '.codebraid_export.json');
+		for (const text of ['not json', '{"version": 2, "exports": {}}', '{"version": 1, "exports": null}']) {
+			await fs.promises.writeFile(manifestFileName, text, 'utf8');
+			assert.deepStrictEqual(await readManifest(tempDirectory), empty, text);
+		}
+	});
+});
@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+
+import * as vscode from 'vscode';
+import { parsePandocStderr, pandocLevelToDiagnosticSeverity, findCitationRanges } from '../../pandoc_diagnostics';
+
+suite('Pandoc Diagnostics Test Suite', () => {
+	test('Parse messages with locations', () => {
+		const messages = parsePandocStderr([
+			'[WARNING] Duplicate link reference \'[a]\' "stdin" (line 12, column 3)',
+			'[ERROR] Error at "stdin" (line 4, column 1):',
+			'unexpected end of input',
+			'',
+		].join('\n'));
+		assert.deepStrictEqual(messages, [
+			{
+				level: 'WARNING',
+				text: 'Duplicate link reference \'[a]\' "stdin" (line 12, column 3)',
+				line: 12,
+				column: 3,
+				citationKey: undefined,
+			},
+			{
+				level: 'ERROR',
+				text: 'Error at "stdin" (line 4, column 1):\nunexpected end of input',
+				line: 4,
+				column: 1,
+				citationKey: undefined,
+			},
+		]);
+	});
+
+	test('Parse messages without locations', () => {
+		const messages = parsePandocStderr('[INFO] Not rendering RawBlock\r\n[WARNING] Citeproc: citation smith2020 not found\r\n');
+		assert.strictEqual(messages.length, 2);
+		assert.strictEqual(messages[0].level, 'INFO');
+		assert.strictEqual(messages[0].line, undefined);
+		assert.strictEqual(messages[1].citationKey, 'smith2020');
+	});
+
+	test('Ignore text before the first message', () => {
+		assert.deepStrictEqual(parsePandocStderr('pandoc: some failure\n'), []);
+		assert.deepStrictEqual(parsePandocStderr(''), []);
+	});
+
+	test('Map levels to severities', () => {
+		assert.strictEqual(pandocLevelToDiagnosticSeverity('ERROR'), vscode.DiagnosticSeverity.Error);
+		assert.strictEqual(pandocLevelToDiagnosticSeverity('WARNING'), vscode.DiagnosticSeverity.Warning);
+		assert.strictEqual(pandocLevelToDiagnosticSeverity('INFO'), vscode.DiagnosticSeverity.Information);
+	});
+
+	test('Find citations in both forms', () => {
+		const ranges = findCitationRanges('See @smith2020.\nAlso [@{smith2020}; @smith2020a] and email@smith2020.\n', 'smith2020');
+		assert.deepStrictEqual(
+			ranges.map((range) => [range.start.line, range.start.character, range.end.character]),
+			[[0, 4, 14], [1, 6, 18]]
+		);
+	});
+});
@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+
+import { parsePandocServerResponse } from '../../pandoc_server';
+
+suite('Pandoc Server Test Suite', () => {
+	test('Treat server errors as unavailable', () => {
+		assert.strictEqual(parsePandocServerResponse(undefined, ''), undefined);
+		assert.strictEqual(parsePandocServerResponse(500, 'Internal Server Error'), undefined);
+		assert.strictEqual(parsePandocServerResponse(503, ''), undefined);
+	});
+
+	test('Report other statuses as conversion errors', () => {
+		assert.deepStrictEqual(parsePandocServerResponse(400, 'Unknown reader: foo'), {
+			error: 'Pandoc server returned status 400:\nUnknown reader: foo',
+			output: '',
+			stderr: 'Unknown reader: foo',
+		});
+	});
+
+	test('Accept text and JSON string output', () => {
+		assert.deepStrictEqual(parsePandocServerResponse(200, '<p>Text</p>'), {error: undefined, output: '<p>Text</p>', stderr: ''});
+		assert.deepStrictEqual(parsePandocServerResponse(200, '"<p>Text</p>"'), {error: undefined, output: '<p>Text</p>', stderr: ''});
+	});
+
+	test('Convert messages to stderr', () => {
+		const response = parsePandocServerResponse(200, JSON.stringify({
+			output: '<p>Text</p>',
+			base64: false,
+			messages: [
+				{verbosity: 'WARNING', message: 'Duplicate identifier'},
+				{message: 'No verbosity'},
+				{verbosity: 'INFO'},
+				'not an object',
+			],
+		}));
+		assert.deepStrictEqual(response, {
+			error: undefined,
+			output: '<p>Text</p>',
+			stderr: '[WARNING] Duplicate identifier\n[WARNING] No verbosity\n',
+		});
+	});
+
+	test('Report Pandoc errors and unsupported JSON', () => {
+		assert.deepStrictEqual(parsePandocServerResponse(200, JSON.stringify({error: 'Parse error'})), {
+			error: 'Pandoc server returned an error:\nParse error',
+			output: '',
+			stderr: 'Parse error',
+		});
+		for (const text of ['1', 'null', '[]', '{"output": 1}', '{}']) {
+			assert.strictEqual(parsePandocServerResponse(200, text)?.error, 'Pandoc server returned invalid or unsupported JSON', text);
+		}
+		assert.strictEqual(
+			parsePandocServerResponse(200, JSON.stringify({output: 'AAAA', base64: true}))?.error,
+			'Pandoc server returned binary output, which is not supported for preview'
+		);
+	});
+});
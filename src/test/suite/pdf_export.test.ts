@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+
+import { hasPdfEngineOption, parsePdfEngineErrors, findLatexContextLine } from '../../pdf_export';
+
+suite('PDF Export Test Suite', () => {
+	test('Detect PDF engine options', () => {
+		assert.strictEqual(hasPdfEngineOption(['--toc', '--pdf-engine=xelatex']), true);
+		assert.strictEqual(hasPdfEngineOption(['--pdf-engine xelatex']), true);
+		assert.strictEqual(hasPdfEngineOption(['--pdf-engine-opt=-shell-escape']), false);
+		assert.strictEqual(hasPdfEngineOption([]), false);
+	});
+
+	test('Parse LaTeX errors with context', () => {
+		const errors = parsePdfEngineErrors([
+			'Error producing PDF.',
+			'! Undefined control sequence.',
+			'l.42 Some text with \\badmacro',
+			'',
+			'! Missing $ inserted.',
+			'<inserted text>',
+			'! Emergency stop.',
+		].join('\n'));
+		assert.deepStrictEqual(errors, [
+			{isWarning: false, message: 'Undefined control sequence.', context: 'Some text with \\badmacro'},
+			{isWarning: false, message: 'Missing $ inserted.', context: undefined},
+			{isWarning: false, message: 'Emergency stop.', context: undefined},
+		]);
+	});
+
+	test('Parse Tectonic errors and LaTeX warnings', () => {
+		const errors = parsePdfEngineErrors([
+			'error: input.tex:10: Undefined control sequence',
+			'LaTeX Warning: Reference `fig:a\' on page 1 undefined on input line 5.',
+			'Package hyperref Warning: Token not allowed in a PDF string',
+		].join('\r\n'));
+		assert.deepStrictEqual(errors.map((error) => [error.isWarning, error.message]), [
+			[false, 'Undefined control sequence'],
+			[true, 'LaTeX Warning: Reference `fig:a\' on page 1 undefined on input line 5.'],
+			[true, 'Package hyperref Warning: Token not allowed in a PDF string'],
+		]);
+	});
+
+	test('Locate LaTeX context in the source', () => {
+		const sourceText = '# Title\n\nSome text with $\\badmacro$ here.\n\nMore text.\n';
+		assert.strictEqual(findLatexContextLine(sourceText, 'Some text with \\badmacro'), 2);
+		assert.strictEqual(findLatexContextLine(sourceText, 'More text.'), 4);
+		assert.strictEqual(findLatexContextLine(sourceText, 'text'), undefined);
+		assert.strictEqual(findLatexContextLine(sourceText, 'not in source'), undefined);
+	});
+});
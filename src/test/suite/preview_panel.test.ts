@@ -0,0 +1,25 @@
+import * as assert from 'assert';
+
+import { splitPreviewHtmlBody } from '../../preview_panel';
+
+suite('Preview Panel Test Suite', () => {
+	test('Split preview HTML at the body tag', () => {
+		const html = '<head>\n<title>Doc</title>\n</head>\n<body class="x">\n<p>Text</p>\n</body>\n</html>\n';
+		assert.deepStrictEqual(splitPreviewHtmlBody(html), {
+			head: '<head>\n<title>Doc</title>\n</head>\n<body class="x">',
+			body: '\n<p>Text</p>\n',
+			hasScripts: false,
+		});
+	});
+
+	test('Detect scripts in the body', () => {
+		assert.strictEqual(splitPreviewHtmlBody('<BODY><script src="a.js"></script></BODY></HTML>')?.hasScripts, true);
+		assert.strictEqual(splitPreviewHtmlBody('<body><p>&lt;script&gt;</p><scripts/></body></html>')?.hasScripts, false);
+	});
+
+	test('Require a complete body', () => {
+		assert.strictEqual(splitPreviewHtmlBody('<head></head>\n<p>Text</p>\n</html>'), undefined);
+		assert.strictEqual(splitPreviewHtmlBody('<body><p>Text</p></body>\n<p>More</p></html>'), undefined);
+		assert.strictEqual(splitPreviewHtmlBody('<bodyx><p>Text</p></body></html>'), undefined);
+	});
+});
@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+
+import * as yaml from 'js-yaml';
+import { findYamlKeyPathRange, replaceProjectConfigBuild } from '../../project_config';
+
+const configText = [
+	'# Project settings',
+	'build:',
+	'  "*.md":',
+	'    reader: commonmark_x',
+	'    preview:',
+	'      html:',
+	'        options:',
+	'          - --toc',
+	'          # Numbering',
+	'          - --number-sections',
+	'    export:',
+	'      docx: {options: [--toc]}',
+	'',
+	'# Other settings',
+	'other: true',
+	'',
+].join('\n');
+
+suite('Project Config Test Suite', () => {
+	test('Find ranges of keys and list items', () => {
+		const toArray = (keyPath: Array<string | number>) => {
+			const range = findYamlKeyPathRange(configText, keyPath);
+			return [range.start.line, range.start.character, range.end.line, range.end.character];
+		};
+		assert.deepStrictEqual(toArray(['build']), [1, 0, 1, 5]);
+		assert.deepStrictEqual(toArray(['build', '*.md']), [2, 2, 2, 8]);
+		assert.deepStrictEqual(toArray(['build', '*.md', 'reader']), [3, 4, 3, 10]);
+		assert.deepStrictEqual(toArray(['build', '*.md', 'preview', 'html', 'options', 1]), [9, 10, 9, 29]);
+		assert.deepStrictEqual(toArray(['other']), [14, 0, 14, 5]);
+	});
+
+	test('Fall back to the last key found', () => {
+		const range = findYamlKeyPathRange(configText, ['build', '*.md', 'export', 'docx', 'options', 0]);
+		assert.deepStrictEqual([range.start.line, range.start.character], [11, 6]);
+		const missingRange = findYamlKeyPathRange(configText, ['build', '*.tex']);
+		assert.deepStrictEqual([missingRange.start.line, missingRange.start.character], [1, 0]);
+	});
+
+	test('Replace only the build node', () => {
+		const text = [
+			'# Project settings',
+			'build:',
+			'  "*.md":',
+			'    reader: markdown',
+			'',
+			'# Other settings',
+			'other: true',
+			'',
+		].join('\n');
+		const build: {[key: string]: any} = {};
+		build['*.md'] = {reader: 'commonmark_x'};
+		const newText = replaceProjectConfigBuild(text, build);
+		assert.deepStrictEqual(newText.split('\n'), [
+			'# Project settings',
+			'build:',
+			'  \'*.md\':',
+			'    reader: commonmark_x',
+			'',
+			'# Other settings',
+			'other: true',
+			'',
+		]);
+		assert.deepStrictEqual(yaml.load(newText), {build: build, other: true});
+	});
+
+	test('Add a build node and keep line endings', () => {
+		const build: {[key: string]: any} = {};
+		build['*.md'] = {reader: 'markdown'};
+		const newText = replaceProjectConfigBuild('other: true\r\n', build);
+		assert.strictEqual(newText, 'other: true\r\nbuild:\r\n  \'*.md\':\r\n    reader: markdown\r\n');
+		assert.strictEqual(replaceProjectConfigBuild('', {}), 'build: {}\n');
+	});
+
+	test('Refuse to lose comments or flow-style build nodes', () => {
+		assert.throws(() => replaceProjectConfigBuild(configText, {}), /has comments under "build"/);
+		assert.throws(() => replaceProjectConfigBuild('{build: {}}\n', {}), /can't be edited/);
+	});
+});
@@ -9,19 +9,23 @@
 import type * as vscode from 'vscode';
 import type { PandocBuildConfigCollections } from './pandoc_build_configs';
 import type { PandocInfo } from './pandoc_info';
+import type { PandocServer } from './pandoc_server';
 
 export type ExtensionState = {
 	'isWindows': boolean,
 	'context': vscode.ExtensionContext,
 	'config': vscode.WorkspaceConfiguration,
 	'pandocInfo': PandocInfo,
+	'pandocServer': PandocServer,
 	'pandocBuildConfigCollections': PandocBuildConfigCollections,
 	'normalizedExtraLocalResourceRoots': Array<string>,
 	'resourceRootUris': Array<vscode.Uri>,
 	'log': (message: string) => void,
+	'showLog': () => void,
 	'statusBarItems': {
 		'openPreview': vscode.StatusBarItem
 		'runCodebraid': vscode.StatusBarItem,
+		'codebraidRunOnSave': vscode.StatusBarItem,
 		'scrollSyncMode': vscode.StatusBarItem,
 		'exportDocument': vscode.StatusBarItem,
 	},
@@ -6,6 +6,11 @@
 //
 
 
+import * as child_process from 'child_process';
+
+import { isWindows } from './constants';
+
+
 export function countNewlines(text: string) {
 	let newlines: number = 0;
 	for (const c of text) {
@@ -82,3 +87,24 @@ export function versionIsAtLeast(version: VersionArray, minVersion: VersionArray
 	}
 	return false;
 }
+
+
+export function killProcessTree(childProcess: child_process.ChildProcess) {
+	// Processes are run with `shell: true`, so killing the child process only
+	// kills the shell and may leave the actual command running.  On Windows,
+	// `taskkill` handles the whole tree.  Elsewhere, processes must be started
+	// with `detached: true` so that they lead a process group that can be
+	// killed as a whole.
+	if (childProcess.pid === undefined || childProcess.exitCode !== null || childProcess.signalCode !== null) {
+		return;
+	}
+	if (isWindows) {
+		child_process.execFile('taskkill', ['/pid', `${childProcess.pid}`, '/T', '/F'], () => {});
+		return;
+	}
+	try {
+		process.kill(-childProcess.pid, 'SIGTERM');
+	} catch {
+		childProcess.kill();
+	}
+}